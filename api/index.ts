@@ -10,7 +10,9 @@ dotenv.config();
 
 import MongoStore from "connect-mongo";
 import { connectDb } from "../server/db";
+import { streamEvents } from "../server/events";
 import { appRouter } from "../server/routes";
+import { startScheduler } from "../server/scheduler";
 
 export const app = express();
 const PORT = process.env.PORT || 3000;
@@ -35,6 +37,7 @@ app.use(
 );
 
 app.use(express.static(path.join(__dirname, "../public")));
+app.get("/api/events", streamEvents); // Server-Sent Events, kept open instead of answered like the routes in `appRouter`.
 app.use("/api/", appRouter);
 
 // For all unrecognized requests, return a not found message.
@@ -48,6 +51,7 @@ void connectDb().then(() => {
   app.listen(PORT, () => {
     console.log("Started listening on port", PORT);
   });
+  startScheduler();
 });
 
 export default app;
@@ -38,6 +38,12 @@ const operations: Operation[] = [
     method: "PATCH",
     fields: { username: "input" },
   },
+  {
+    name: "Update Timezone (IANA name, e.g. Europe/Paris)",
+    endpoint: "/api/users/timezone",
+    method: "PATCH",
+    fields: { timezone: "input" },
+  },
   {
     name: "Update Password",
     endpoint: "/api/users/password",
@@ -45,11 +51,23 @@ const operations: Operation[] = [
     fields: { currentPassword: "input", newPassword: "input" },
   },
   {
-    name: "Delete User",
+    name: "Delete User (mode is purge or anonymize, competitions is transfer or close)",
     endpoint: "/api/users",
     method: "DELETE",
+    fields: { mode: "input", competitions: "input" },
+  },
+  {
+    name: "Export User Data",
+    endpoint: "/api/users/me/export",
+    method: "GET",
     fields: {},
   },
+  {
+    name: "Import User Data (paste an export archive)",
+    endpoint: "/api/users/me/import",
+    method: "POST",
+    fields: { archive: "json" },
+  },
   {
     name: "Log In",
     endpoint: "/api/login",
@@ -66,7 +84,7 @@ const operations: Operation[] = [
     name: "Get Friends",
     endpoint: "/api/friends",
     method: "GET",
-    fields: {},
+    fields: { cursor: "input", limit: "input" },
   },
   {
     name: "Remove Friend",
@@ -78,7 +96,7 @@ const operations: Operation[] = [
     name: "Get Friend Requests",
     endpoint: "/api/friend/requests",
     method: "GET",
-    fields: {},
+    fields: { cursor: "input", limit: "input" },
   },
   {
     name: "Send Friend Request",
@@ -104,23 +122,59 @@ const operations: Operation[] = [
     method: "PUT",
     fields: { from: "input" },
   },
+  {
+    name: "Get Blocked and Muted Users (kind is block or mute, empty for both)",
+    endpoint: "/api/blocks",
+    method: "GET",
+    fields: { kind: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Block User",
+    endpoint: "/api/blocks/:username",
+    method: "POST",
+    fields: { username: "input" },
+  },
+  {
+    name: "Unblock User",
+    endpoint: "/api/blocks/:username",
+    method: "DELETE",
+    fields: { username: "input" },
+  },
+  {
+    name: "Mute User",
+    endpoint: "/api/mutes/:username",
+    method: "POST",
+    fields: { username: "input" },
+  },
+  {
+    name: "Unmute User",
+    endpoint: "/api/mutes/:username",
+    method: "DELETE",
+    fields: { username: "input" },
+  },
   {
     name: "Get Posts (empty for all)",
     endpoint: "/api/posts",
     method: "GET",
-    fields: { author: "input" },
+    fields: { author: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Get Feed",
+    endpoint: "/api/feed",
+    method: "GET",
+    fields: { cursor: "input", limit: "input" },
   },
   {
-    name: "Create Post",
+    name: "Create Post (visibility is public, friends or private)",
     endpoint: "/api/posts",
     method: "POST",
-    fields: { isLinked: "input", content: "input" },
+    fields: { isLinked: "input", content: "input", options: { visibility: "input" } },
   },
   {
     name: "Update Post",
     endpoint: "/api/posts/:id",
     method: "PATCH",
-    fields: { id: "input", content: "input", options: { backgroundColor: "input" } },
+    fields: { id: "input", content: "input", options: { backgroundColor: "input", visibility: "input" } },
   },
   {
     name: "Delete Post",
@@ -132,13 +186,19 @@ const operations: Operation[] = [
     name: "Get Comments (empty for all)",
     endpoint: "/api/comments",
     method: "GET",
-    fields: { author: "input" },
+    fields: { author: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Get Post Comment Threads",
+    endpoint: "/api/posts/:id/comments",
+    method: "GET",
+    fields: { id: "input", depth: "input" },
   },
   {
-    name: "Create Comment",
+    name: "Create Comment (parentId to reply)",
     endpoint: "/api/comments",
     method: "POST",
-    fields: { isLinked: "input", postId: "input", content: "input" },
+    fields: { isLinked: "input", postId: "input", content: "input", parentId: "input" },
   },
   {
     name: "Update Comment",
@@ -152,17 +212,59 @@ const operations: Operation[] = [
     method: "DELETE",
     fields: { id: "input" },
   },
+  {
+    name: "Get Metrics",
+    endpoint: "/api/metrics",
+    method: "GET",
+    fields: {},
+  },
+  {
+    name: "Create Metric (direction is higher or lower, valueType is integer, decimal or duration, perDay is allow, reject or replace)",
+    endpoint: "/api/metrics",
+    method: "POST",
+    fields: { name: "input", direction: "input", valueType: "input", unit: "input", min: "input", max: "input", maxDaysBack: "input", allowFuture: "input", perDay: "input" },
+  },
+  {
+    name: "Update Metric Rules (empty min, max or maxDaysBack for no limit)",
+    endpoint: "/api/metrics/:id/rules",
+    method: "PUT",
+    fields: { id: "input", min: "input", max: "input", maxDaysBack: "input", allowFuture: "input", perDay: "input" },
+  },
+  {
+    name: "Delete Metric",
+    endpoint: "/api/metrics/:id",
+    method: "DELETE",
+    fields: { id: "input" },
+  },
   {
     name: "Get Data (empty for all, only use one of date or dateRange, sort is either score or date)",
     endpoint: "/api/data",
     method: "GET",
-    fields: { username: "input", date: "input", dateRange: "input", sort: "input" },
+    fields: { username: "input", date: "input", dateRange: "input", sort: "input", metric: "input", cursor: "input", limit: "input" },
   },
   {
-    name: "Log Data",
+    name: "Get My Data Stats (dateRange is start_end, empty for all)",
+    endpoint: "/api/data/stats",
+    method: "GET",
+    fields: { metric: "input", dateRange: "input" },
+  },
+  {
+    name: "Log Data (metric is a name or id, empty for the default)",
     endpoint: "/api/data",
     method: "POST",
-    fields: { isLinked: "input", date: "input", score: "input" },
+    fields: { isLinked: "input", date: "input", score: "input", metric: "input" },
+  },
+  {
+    name: "Get Data Import Formats",
+    endpoint: "/api/data/import/formats",
+    method: "GET",
+    fields: {},
+  },
+  {
+    name: "Import Data (format is csv or wordle, dryRun is true to only preview)",
+    endpoint: "/api/data/import",
+    method: "POST",
+    fields: { format: "input", text: "textarea", metric: "input", dryRun: "input", isLinked: "input" },
   },
   {
     name: "Update Data",
@@ -177,22 +279,64 @@ const operations: Operation[] = [
     fields: { id: "input" },
   },
   {
-    name: "Get Competitions (empty for all)",
+    name: "React (like, ❤️, 😂, 😮, 😢, 🎉 or 🔥)",
+    endpoint: "/api/reactions",
+    method: "POST",
+    fields: { itemId: "input", reaction: "input" },
+  },
+  {
+    name: "Remove Reaction",
+    endpoint: "/api/reactions/:itemId",
+    method: "DELETE",
+    fields: { itemId: "input", reaction: "input" },
+  },
+  {
+    name: "Get Notifications (unread: true for only unread)",
+    endpoint: "/api/notifications",
+    method: "GET",
+    fields: { unread: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Count Unread Notifications",
+    endpoint: "/api/notifications/unread",
+    method: "GET",
+    fields: {},
+  },
+  {
+    name: "Mark Notification Read",
+    endpoint: "/api/notifications/:id/read",
+    method: "PATCH",
+    fields: { id: "input" },
+  },
+  {
+    name: "Mark All Notifications Read",
+    endpoint: "/api/notifications/read",
+    method: "PATCH",
+    fields: {},
+  },
+  {
+    name: "Get Competitions (empty for all, status is a comma-separated list of scheduled, active, ended or finalized)",
     endpoint: "/api/competitions",
     method: "GET",
-    fields: { username: "input" },
+    fields: { username: "input", status: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Get Past Competitions",
+    endpoint: "/api/competitions/past",
+    method: "GET",
+    fields: { cursor: "input", limit: "input" },
   },
   {
-    name: "Create Competition",
+    name: "Create Competition (joinPolicy is open, request or invite)",
     endpoint: "/api/competitions",
     method: "POST",
-    fields: { isLinked: "input", name: "input", endDate: "input" },
+    fields: { isLinked: "input", name: "input", startDate: "input", endDate: "input", scoring: "input", joinPolicy: "input", metric: "input", timezone: "input" },
   },
   {
     name: "Update Competition",
     endpoint: "/api/competitions/:name",
     method: "PATCH",
-    fields: { name: "input", newName: "input", owner: "input", endDate: "input" },
+    fields: { name: "input", newName: "input", startDate: "input", endDate: "input", joinPolicy: "input", timezone: "input" },
   },
   {
     name: "Delete Competition",
@@ -200,17 +344,47 @@ const operations: Operation[] = [
     method: "DELETE",
     fields: { name: "input" },
   },
+  {
+    name: "Get Competition Leaderboard",
+    endpoint: "/api/competitions/:name/leaderboard",
+    method: "GET",
+    fields: { name: "input" },
+  },
+  {
+    name: "Get Competition Team Leaderboard",
+    endpoint: "/api/competitions/:name/leaderboard/teams",
+    method: "GET",
+    fields: { name: "input" },
+  },
+  {
+    name: "Get Competition Data",
+    endpoint: "/api/competitions/:name/data",
+    method: "GET",
+    fields: { name: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Finalize Competition",
+    endpoint: "/api/competitions/:name/finalize",
+    method: "POST",
+    fields: { name: "input" },
+  },
+  {
+    name: "Get Competition Results",
+    endpoint: "/api/competitions/:name/results",
+    method: "GET",
+    fields: { name: "input" },
+  },
   {
     name: "Get Competition Members",
     endpoint: "/api/competitions/:name/users",
     method: "GET",
-    fields: { name: "input" },
+    fields: { name: "input", cursor: "input", limit: "input" },
   },
   {
-    name: "Join Competition",
+    name: "Join Competition (code to join with an invite)",
     endpoint: "/api/competitions/:name/users",
     method: "POST",
-    fields: { name: "input" },
+    fields: { name: "input", code: "input" },
   },
   {
     name: "Leave Competition",
@@ -218,17 +392,155 @@ const operations: Operation[] = [
     method: "DELETE",
     fields: { name: "input" },
   },
+  {
+    name: "Remove Competition Member",
+    endpoint: "/api/competitions/:name/users/:username",
+    method: "DELETE",
+    fields: { name: "input", username: "input" },
+  },
+  {
+    name: "Transfer Competition Ownership",
+    endpoint: "/api/competitions/:name/owner",
+    method: "PUT",
+    fields: { name: "input", username: "input" },
+  },
+  {
+    name: "Add Competition Admin",
+    endpoint: "/api/competitions/:name/admins",
+    method: "POST",
+    fields: { name: "input", username: "input" },
+  },
+  {
+    name: "Remove Competition Admin",
+    endpoint: "/api/competitions/:name/admins/:username",
+    method: "DELETE",
+    fields: { name: "input", username: "input" },
+  },
+  {
+    name: "Set Competition Team Options (scoring is sum or average, locked is true or false)",
+    endpoint: "/api/competitions/:name/team-options",
+    method: "PUT",
+    fields: { name: "input", scoring: "input", maxSize: "input", locked: "input" },
+  },
+  {
+    name: "Get Competition Teams",
+    endpoint: "/api/competitions/:name/teams",
+    method: "GET",
+    fields: { name: "input" },
+  },
+  {
+    name: "Create Competition Team",
+    endpoint: "/api/competitions/:name/teams",
+    method: "POST",
+    fields: { name: "input", team: "input" },
+  },
+  {
+    name: "Delete Competition Team",
+    endpoint: "/api/competitions/:name/teams/:team",
+    method: "DELETE",
+    fields: { name: "input", team: "input" },
+  },
+  {
+    name: "Join Competition Team",
+    endpoint: "/api/competitions/:name/teams/:team/users",
+    method: "POST",
+    fields: { name: "input", team: "input" },
+  },
+  {
+    name: "Leave Competition Team",
+    endpoint: "/api/competitions/:name/teams/:team/users",
+    method: "DELETE",
+    fields: { name: "input", team: "input" },
+  },
+  {
+    name: "Get Competition Join Requests",
+    endpoint: "/api/competitions/:name/requests",
+    method: "GET",
+    fields: { name: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Accept Competition Join Request",
+    endpoint: "/api/competitions/:name/requests/:username",
+    method: "PUT",
+    fields: { name: "input", username: "input" },
+  },
+  {
+    name: "Reject or Withdraw Competition Join Request",
+    endpoint: "/api/competitions/:name/requests/:username",
+    method: "DELETE",
+    fields: { name: "input", username: "input" },
+  },
+  {
+    name: "Get Competition Invites",
+    endpoint: "/api/competitions/:name/invites",
+    method: "GET",
+    fields: { name: "input" },
+  },
+  {
+    name: "Create Competition Invite (empty for no expiry or use limit)",
+    endpoint: "/api/competitions/:name/invites",
+    method: "POST",
+    fields: { name: "input", expiresAt: "input", maxUses: "input" },
+  },
+  {
+    name: "Revoke Competition Invite",
+    endpoint: "/api/competitions/:name/invites/:code",
+    method: "DELETE",
+    fields: { name: "input", code: "input" },
+  },
+  {
+    name: "Get Competition Disputes (status is open, accepted, rejected or adjusted, empty for all)",
+    endpoint: "/api/competitions/:name/disputes",
+    method: "GET",
+    fields: { name: "input", status: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Dispute Competition Data",
+    endpoint: "/api/competitions/:name/disputes",
+    method: "POST",
+    fields: { name: "input", id: "input", reason: "input" },
+  },
+  {
+    name: "Resolve Competition Dispute (resolution is accepted, rejected or adjusted, score only when adjusted)",
+    endpoint: "/api/competitions/:name/disputes/:id",
+    method: "PATCH",
+    fields: { name: "input", id: "input", resolution: "input", score: "input", note: "input" },
+  },
+  {
+    name: "Get Recurring Competitions",
+    endpoint: "/api/series",
+    method: "GET",
+    fields: { cursor: "input", limit: "input" },
+  },
+  {
+    name: "Get Recurring Competition History",
+    endpoint: "/api/series/:name",
+    method: "GET",
+    fields: { name: "input" },
+  },
+  {
+    name: "Create Recurring Competition (recurrence is daily, weekly or monthly)",
+    endpoint: "/api/series",
+    method: "POST",
+    fields: { name: "input", recurrence: "input", scoring: "input", startDate: "input", joinPolicy: "input", metric: "input", timezone: "input" },
+  },
+  {
+    name: "Stop Recurring Competition",
+    endpoint: "/api/series/:name",
+    method: "DELETE",
+    fields: { name: "input" },
+  },
   {
     name: "Get Links (empty for all)",
     endpoint: "/api/links",
     method: "GET",
-    fields: { user: "input" },
+    fields: { user: "input", cursor: "input", limit: "input" },
   },
   {
     name: "Get User-Post Links (empty for all)",
     endpoint: "/api/links/posts",
     method: "GET",
-    fields: { username: "input" },
+    fields: { username: "input", cursor: "input", limit: "input" },
   },
   {
     name: "Create User-Post Link",
@@ -246,7 +558,7 @@ const operations: Operation[] = [
     name: "Get User-Comment Links (empty for all)",
     endpoint: "/api/links/comments",
     method: "GET",
-    fields: { username: "input" },
+    fields: { username: "input", cursor: "input", limit: "input" },
   },
   {
     name: "Create User-Comment Link",
@@ -264,7 +576,7 @@ const operations: Operation[] = [
     name: "Get User-Data Links (empty for all)",
     endpoint: "/api/links/data",
     method: "GET",
-    fields: { username: "input" },
+    fields: { username: "input", cursor: "input", limit: "input" },
   },
   {
     name: "Create User-Data Link",
@@ -282,7 +594,7 @@ const operations: Operation[] = [
     name: "Get User-Competition Links (empty for all)",
     endpoint: "/api/links/competitions",
     method: "GET",
-    fields: { username: "input" },
+    fields: { username: "input", cursor: "input", limit: "input" },
   },
   {
     name: "Create User-Competition Link",
@@ -296,6 +608,84 @@ const operations: Operation[] = [
     method: "DELETE",
     fields: { id: "input" },
   },
+  {
+    name: "Report (type is posts, comments, data or competitions; reason is spam, abuse or other)",
+    endpoint: "/api/reports",
+    method: "POST",
+    fields: { type: "input", id: "input", reason: "input", details: "input" },
+  },
+  {
+    name: "Admin: Get Report Queue",
+    endpoint: "/api/reports",
+    method: "GET",
+    fields: { cursor: "input", limit: "input" },
+  },
+  {
+    name: "Admin: Get Reports on Item",
+    endpoint: "/api/reports/:id",
+    method: "GET",
+    fields: { id: "input" },
+  },
+  {
+    name: "Admin: Resolve Reports (dismissed, hidden or deleted)",
+    endpoint: "/api/reports/:id",
+    method: "PATCH",
+    fields: { id: "input", resolution: "input" },
+  },
+  {
+    name: "Admin: List Users",
+    endpoint: "/api/admin/users",
+    method: "GET",
+    fields: { cursor: "input", limit: "input" },
+  },
+  {
+    name: "Admin: Set User Role (user, moderator or admin)",
+    endpoint: "/api/admin/users/:username/role",
+    method: "PATCH",
+    fields: { username: "input", role: "input" },
+  },
+  {
+    name: "Admin: Suspend User",
+    endpoint: "/api/admin/users/:username/suspension",
+    method: "PUT",
+    fields: { username: "input", reason: "input", until: "input" },
+  },
+  {
+    name: "Admin: Unsuspend User",
+    endpoint: "/api/admin/users/:username/suspension",
+    method: "DELETE",
+    fields: { username: "input" },
+  },
+  {
+    name: "Admin: List Content (posts, comments, data or competitions)",
+    endpoint: "/api/admin/content/:type",
+    method: "GET",
+    fields: { type: "input", hidden: "input", cursor: "input", limit: "input" },
+  },
+  {
+    name: "Admin: Hide or Show Content",
+    endpoint: "/api/admin/content/:type/:id",
+    method: "PATCH",
+    fields: { type: "input", id: "input", hidden: "input" },
+  },
+  {
+    name: "Admin: Delete Content",
+    endpoint: "/api/admin/content/:type/:id",
+    method: "DELETE",
+    fields: { type: "input", id: "input" },
+  },
+  {
+    name: "Admin: Renew Recurring Competitions",
+    endpoint: "/api/admin/series/renew",
+    method: "POST",
+    fields: {},
+  },
+  {
+    name: "Admin: Send Competition Notices",
+    endpoint: "/api/admin/competitions/notices",
+    method: "POST",
+    fields: {},
+  },
 ];
 
 /*
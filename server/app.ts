@@ -1,11 +1,19 @@
 import AuthenticatingConcept from "./concepts/authenticating";
+import BlockingConcept from "./concepts/blocking";
 import CommentingConcept from "./concepts/commenting";
 import CompetingConcept from "./concepts/competing";
+import DisputingConcept from "./concepts/disputing";
 import FriendingConcept from "./concepts/friending";
+import ImportingConcept, { CsvParser, WordleParser } from "./concepts/importing";
 import JoiningConcept from "./concepts/joining";
 import LinkingConcept from "./concepts/linking";
+import NotifyingConcept from "./concepts/notifying";
 import PostingConcept from "./concepts/posting";
+import ReactingConcept from "./concepts/reacting";
+import RecurringConcept from "./concepts/recurring";
+import ReportingConcept from "./concepts/reporting";
 import SessioningConcept from "./concepts/sessioning";
+import TeamingConcept from "./concepts/teaming";
 import TrackingConcept from "./concepts/tracking";
 
 // The app is a composition of concepts instantiated here
@@ -16,6 +24,14 @@ export const Friending = new FriendingConcept("friends");
 export const Posting = new PostingConcept("posts");
 export const Commenting = new CommentingConcept("comments");
 export const Tracking = new TrackingConcept("data");
+export const Importing = new ImportingConcept([CsvParser, WordleParser]);
 export const Competing = new CompetingConcept("competitions");
 export const Joining = new JoiningConcept("groups");
+export const Teaming = new TeamingConcept("teams");
+export const Recurring = new RecurringConcept("series");
+export const Disputing = new DisputingConcept("disputes");
 export const Linking = new LinkingConcept("links");
+export const Reacting = new ReactingConcept("reactions");
+export const Notifying = new NotifyingConcept("notifications");
+export const Reporting = new ReportingConcept("reports");
+export const Blocking = new BlockingConcept("blocks");
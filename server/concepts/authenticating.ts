@@ -1,17 +1,61 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
 import { ObjectId } from "mongodb";
-import DocCollection, { BaseDoc } from "../framework/doc";
+import { promisify } from "util";
+import { assertValidTimezone, DEFAULT_TIMEZONE } from "../framework/days";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import EventBus from "../framework/events";
 import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
+/**
+ * What a user may do, each role including everything the roles before it may do.
+ * Users without a role are regular users.
+ */
+export enum Role {
+  USER = "user",
+  MODERATOR = "moderator",
+  ADMIN = "admin",
+}
+
+const ROLE_RANKS = [Role.USER, Role.MODERATOR, Role.ADMIN];
+
+/**
+ * Why and by whom a user was suspended, and until when if not indefinitely.
+ */
+export interface Suspension {
+  reason: string;
+  by: ObjectId;
+  until?: Date;
+}
+
 export interface UserDoc extends BaseDoc {
+  username: string;
+  passwordHash: string;
+  passwordSalt: string;
+  role?: Role;
+  suspension?: Suspension;
+  // The IANA timezone the user's calendar days are in, UTC if not set
+  timezone?: string;
+}
+
+/**
+ * Shape of user rows created before passwords were hashed. These rows store the
+ * plaintext `password` and are rehashed on the user's next successful login.
+ */
+interface LegacyUserDoc extends BaseDoc {
   username: string;
   password: string;
 }
 
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const SALT_BYTES = 16;
+const HASH_BYTES = 64;
+
 /**
  * concept: Authenticating
  */
 export default class AuthenticatingConcept {
   public readonly users: DocCollection<UserDoc>;
+  public readonly events = new EventBus<{ suspended: ObjectId }>();
 
   /**
    * Make an instance of Authenticating.
@@ -25,13 +69,14 @@ export default class AuthenticatingConcept {
 
   async create(username: string, password: string) {
     await this.assertGoodCredentials(username, password);
-    const _id = await this.users.createOne({ username, password });
-    return { msg: "User created successfully!", user: await this.users.readOne({ _id }) };
+    const _id = await this.users.createOne({ username, ...(await this.hashPassword(password)) });
+    const user = await this.users.readOne({ _id });
+    return { msg: "User created successfully!", user: user && this.redactPassword(user) };
   }
 
-  private redactPassword(user: UserDoc): Omit<UserDoc, "password"> {
+  private redactPassword(user: UserDoc): Omit<UserDoc, "passwordHash" | "passwordSalt"> {
     // eslint-disable-next-line
-    const { password, ...rest } = user;
+    const { passwordHash, passwordSalt, password, ...rest } = user as UserDoc & Partial<LegacyUserDoc>;
     return rest;
   }
 
@@ -55,32 +100,95 @@ export default class AuthenticatingConcept {
     return ids.map((id) => idToUser.get(id.toString())?.username ?? "DELETED_USER");
   }
 
-  async getUsers(username?: string) {
+  async getUsers(username?: string, page?: PageOptions) {
     // If username is undefined, return all users by applying empty filter
     const filter = username ? { username } : {};
-    const users = (await this.users.readMany(filter)).map(this.redactPassword);
-    return users;
+    const users = await this.users.readPage(filter, page);
+    return { ...users, items: users.items.map(this.redactPassword) };
   }
 
   async authenticate(username: string, password: string) {
-    const user = await this.users.readOne({ username, password });
-    if (!user) {
+    const user = await this.users.readOne({ username });
+    if (!user || !(await this.verifyPassword(user, password))) {
       throw new NotAllowedError("Username or password is incorrect.");
     }
+    this.assertNotSuspended(user);
     return { msg: "Successfully authenticated.", _id: user._id };
   }
 
+  async setRole(_id: ObjectId, role: string) {
+    if (!this.isRole(role)) throw new BadValuesError("Role must be one of {0}!", ROLE_RANKS.join(", "));
+    await this.assertUserExists(_id);
+    await this.users.partialUpdateOne({ _id }, { role });
+    return { msg: `Role successfully set to ${role}!` };
+  }
+
+  /**
+   * Suspend user `_id` until `until`, or indefinitely if not given. Suspended users can't log in.
+   */
+  async suspend(_id: ObjectId, by: ObjectId, reason: string, until?: Date) {
+    if (!reason) throw new BadValuesError("Suspensions must have a reason!");
+    if (until && (isNaN(until.getTime()) || until <= new Date())) throw new BadValuesError("Suspensions must end in the future!");
+    await this.assertUserExists(_id);
+    await this.users.partialUpdateOne({ _id }, { suspension: { reason, by, until } });
+    this.events.publish("suspended", _id);
+    return { msg: "User successfully suspended!" };
+  }
+
+  async unsuspend(_id: ObjectId) {
+    await this.assertUserExists(_id);
+    await this.users.collection.updateOne({ _id }, { $unset: { suspension: "" }, $set: { dateUpdated: new Date() } });
+    return { msg: "User successfully unsuspended!" };
+  }
+
+  async assertIsNotSuspended(_id: ObjectId) {
+    const user = await this.users.readOne({ _id });
+    if (!user) throw new NotFoundError(`User not found!`);
+    this.assertNotSuspended(user);
+  }
+
+  /**
+   * Assert that user `_id` has `role` or a role above it.
+   */
+  async assertHasRole(_id: ObjectId, role: Role) {
+    const user = await this.users.readOne({ _id });
+    if (!user) throw new NotFoundError(`User not found!`);
+    if (this.rankOf(user) < ROLE_RANKS.indexOf(role)) throw new MissingRoleError(_id, role);
+  }
+
+  /**
+   * Assert that `actor` has a higher role than `target`, so that moderators can't act against each other or admins.
+   */
+  async assertOutranks(actor: ObjectId, target: ObjectId) {
+    const [actorUser, targetUser] = await Promise.all([this.users.readOne({ _id: actor }), this.users.readOne({ _id: target })]);
+    if (!actorUser || !targetUser) throw new NotFoundError(`User not found!`);
+    if (this.rankOf(actorUser) <= this.rankOf(targetUser)) throw new NotAllowedError("Only users with a higher role can moderate this user!");
+  }
+
   async updateUsername(_id: ObjectId, username: string) {
     await this.assertUsernameUnique(username);
     await this.users.partialUpdateOne({ _id }, { username });
     return { msg: "Username updated successfully!" };
   }
 
+  async updateTimezone(_id: ObjectId, timezone: string) {
+    assertValidTimezone(timezone);
+    await this.users.partialUpdateOne({ _id }, { timezone });
+    return { msg: "Timezone updated successfully!" };
+  }
+
+  async getTimezone(_id: ObjectId) {
+    const user = await this.users.readOne({ _id });
+    if (!user) throw new NotFoundError(`User not found!`);
+    return user.timezone ?? DEFAULT_TIMEZONE;
+  }
+
   async updatePassword(_id: ObjectId, currentPassword: string, newPassword: string) {
     const user = await this.users.readOne({ _id });
     if (!user) throw new NotFoundError("User not found");
-    if (user.password !== currentPassword) throw new NotAllowedError("The given current password is wrong!");
-    await this.users.partialUpdateOne({ _id }, { password: newPassword });
+    if (!(await this.verifyPassword(user, currentPassword))) throw new NotAllowedError("The given current password is wrong!");
+    if (!newPassword) throw new BadValuesError("Password must be non-empty!");
+    await this.setPassword(_id, newPassword);
     return { msg: "Password updated successfully!" };
   }
 
@@ -94,6 +202,51 @@ export default class AuthenticatingConcept {
     if (!maybeUser) throw new NotFoundError(`User not found!`);
   }
 
+  /**
+   * Hash `password` with scrypt using a fresh random salt.
+   */
+  private async hashPassword(password: string) {
+    const salt = randomBytes(SALT_BYTES);
+    const hash = await scryptAsync(password, salt, HASH_BYTES);
+    return { passwordHash: hash.toString("hex"), passwordSalt: salt.toString("hex") };
+  }
+
+  /**
+   * Store a freshly salted hash of `password` for user `_id`, dropping any legacy plaintext password.
+   */
+  private async setPassword(_id: ObjectId, password: string) {
+    await this.users.collection.updateOne({ _id }, { $set: { ...(await this.hashPassword(password)), dateUpdated: new Date() }, $unset: { password: "" } });
+  }
+
+  /**
+   * Check `password` against the stored credentials of `user`.
+   * Legacy rows holding a plaintext password are rehashed when the password matches.
+   */
+  private async verifyPassword(user: UserDoc, password: string) {
+    if (user.passwordHash && user.passwordSalt) {
+      const expected = Buffer.from(user.passwordHash, "hex");
+      const actual = await scryptAsync(password, Buffer.from(user.passwordSalt, "hex"), expected.length);
+      return timingSafeEqual(expected, actual);
+    }
+    const legacyPassword = (user as unknown as Partial<LegacyUserDoc>).password;
+    if (legacyPassword === undefined || legacyPassword !== password) return false;
+    await this.setPassword(user._id, password);
+    return true;
+  }
+
+  private isRole(role: string): role is Role {
+    return (ROLE_RANKS as string[]).includes(role);
+  }
+
+  private rankOf(user: UserDoc) {
+    return ROLE_RANKS.indexOf(user.role ?? Role.USER);
+  }
+
+  private assertNotSuspended(user: UserDoc) {
+    const { suspension } = user;
+    if (suspension && (!suspension.until || suspension.until > new Date())) throw new UserSuspendedError(user._id, suspension.reason);
+  }
+
   private async assertGoodCredentials(username: string, password: string) {
     if (!username || !password) throw new BadValuesError("Username and password must be non-empty!");
     await this.assertUsernameUnique(username);
@@ -103,3 +256,21 @@ export default class AuthenticatingConcept {
     if (await this.users.readOne({ username })) throw new NotAllowedError(`User with username ${username} already exists!`);
   }
 }
+
+export class MissingRoleError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly role: Role,
+  ) {
+    super("{0} must be a {1} to do this!", user, role);
+  }
+}
+
+export class UserSuspendedError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly reason: string,
+  ) {
+    super("{0} is suspended: {1}", user, reason);
+  }
+}
@@ -0,0 +1,133 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+/**
+ * Blocking cuts all ties with the target, while muting only hides the target's content from the user.
+ */
+export enum BlockKind {
+  BLOCK = "block",
+  MUTE = "mute",
+}
+
+export interface BlockDoc extends BaseDoc {
+  user: ObjectId;
+  target: ObjectId;
+  kind: BlockKind;
+}
+
+/**
+ * concept: Blocking [User]
+ */
+export default class BlockingConcept {
+  public readonly blocks: DocCollection<BlockDoc>;
+
+  constructor(collectionName: string) {
+    this.blocks = new DocCollection<BlockDoc>(collectionName);
+  }
+
+  /**
+   * Block `target`, replacing a mute of `target` if there is one.
+   */
+  async block(user: ObjectId, target: ObjectId) {
+    this.assertNotSelf(user, target);
+    const existing = await this.blocks.readOne({ user, target });
+    if (existing?.kind === BlockKind.BLOCK) throw new AlreadyBlockedError(user, target, BlockKind.BLOCK);
+    if (existing) {
+      await this.blocks.partialUpdateOne({ _id: existing._id }, { kind: BlockKind.BLOCK });
+    } else {
+      await this.blocks.createOne({ user, target, kind: BlockKind.BLOCK });
+    }
+    return { msg: "User successfully blocked!" };
+  }
+
+  async mute(user: ObjectId, target: ObjectId) {
+    this.assertNotSelf(user, target);
+    const existing = await this.blocks.readOne({ user, target });
+    if (existing) throw new AlreadyBlockedError(user, target, existing.kind);
+    await this.blocks.createOne({ user, target, kind: BlockKind.MUTE });
+    return { msg: "User successfully muted!" };
+  }
+
+  async unblock(user: ObjectId, target: ObjectId) {
+    const deletion = await this.blocks.deleteOne({ user, target, kind: BlockKind.BLOCK });
+    if (deletion.deletedCount === 0) throw new NotFoundError("User is not blocked!");
+    return { msg: "User successfully unblocked!" };
+  }
+
+  async unmute(user: ObjectId, target: ObjectId) {
+    const deletion = await this.blocks.deleteOne({ user, target, kind: BlockKind.MUTE });
+    if (deletion.deletedCount === 0) throw new NotFoundError("User is not muted!");
+    return { msg: "User successfully unmuted!" };
+  }
+
+  /**
+   * Get a page of the users that `user` blocked or muted, newest first, optionally only those of `kind`.
+   */
+  async getBlocks(user: ObjectId, kind?: BlockKind, page?: PageOptions) {
+    return await this.blocks.readPage(kind ? { user, kind } : { user }, page);
+  }
+
+  /**
+   * Get the users whose content `user` doesn't want to see: everyone they blocked or muted.
+   */
+  async getIgnored(user: ObjectId) {
+    const blocks = await this.blocks.readMany({ user });
+    return blocks.map((block) => block.target);
+  }
+
+  /**
+   * Keep only the users among `users` who have not blocked or muted `target`.
+   */
+  async filterNotIgnoring(users: ObjectId[], target: ObjectId) {
+    const ignoring = new Set((await this.blocks.readMany({ user: { $in: users }, target })).map((block) => block.user.toString()));
+    return users.filter((user) => !ignoring.has(user.toString()));
+  }
+
+  async isBlockedEitherWay(user1: ObjectId, user2: ObjectId) {
+    const block = await this.blocks.readOne({
+      kind: BlockKind.BLOCK,
+      $or: [
+        { user: user1, target: user2 },
+        { user: user2, target: user1 },
+      ],
+    });
+    return block !== null;
+  }
+
+  /**
+   * Parse the kind of a block, where no kind means any kind.
+   */
+  parseKind(kind?: string) {
+    if (kind === undefined) return undefined;
+    if (!(Object.values(BlockKind) as string[]).includes(kind)) throw new BadValuesError(`Block kind must be one of: ${Object.values(BlockKind).join(", ")}!`);
+    return kind as BlockKind;
+  }
+
+  /**
+   * Remove every block and mute involving `user`.
+   */
+  async removeUser(user: ObjectId) {
+    await this.blocks.deleteMany({ $or: [{ user }, { target: user }] });
+    return { msg: "Blocks and mutes removed!" };
+  }
+
+  async assertNotBlocked(user: ObjectId, target: ObjectId) {
+    if (await this.isBlockedEitherWay(user, target)) throw new NotAllowedError("This is not possible while one of you blocks the other!");
+  }
+
+  private assertNotSelf(user: ObjectId, target: ObjectId) {
+    if (user.equals(target)) throw new BadValuesError("Users cannot block or mute themselves!");
+  }
+}
+
+export class AlreadyBlockedError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly target: ObjectId,
+    public readonly kind: BlockKind,
+  ) {
+    super("{0} already has a {2} on {1}!", user, target, kind);
+  }
+}
@@ -1,17 +1,41 @@
-import { ObjectId } from "mongodb";
-import DocCollection, { BaseDoc } from "../framework/doc";
-import { NotAllowedError, NotFoundError } from "./errors";
+import { Document, Filter, ObjectId } from "mongodb";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import EventBus from "../framework/events";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
+/**
+ * A comment on `item`, optionally in reply to the comment `parent` on the same item.
+ * A deleted comment that still has replies is kept as a tombstone with no content.
+ */
 export interface CommentDoc extends BaseDoc {
   author: ObjectId;
   item: ObjectId;
   content: string;
+  parent?: ObjectId;
+  deleted?: boolean;
+  hidden?: boolean;
 }
 
-interface FormattedComment {
+/**
+ * A comment with its direct replies, nested down to the depth limit of the thread.
+ * `replyCount` counts all direct replies, even those past the depth limit.
+ */
+export interface CommentThread<Comment = CommentDoc> {
+  comment: Comment;
+  replyCount: number;
+  replies: CommentThread<Comment>[];
+}
+
+export const DEFAULT_THREAD_DEPTH = 3;
+export const MAX_THREAD_DEPTH = 10;
+
+export interface FormattedComment {
   author: string;
   item: ObjectId;
   content: string;
+  parent?: ObjectId;
+  deleted?: boolean;
+  hidden?: boolean;
   _id: ObjectId;
   dateCreated: Date;
   dateUpdated: Date;
@@ -22,53 +46,171 @@ interface FormattedComment {
  */
 export default class CommentingConcept {
   public readonly comments: DocCollection<CommentDoc>;
+  public readonly events = new EventBus<{ created: CommentDoc }>();
 
   constructor(collectionName: string) {
     this.comments = new DocCollection<CommentDoc>(collectionName);
   }
 
-  async create(author: ObjectId, item: ObjectId, content: string) {
-    const _id = await this.comments.createOne({ author, item, content });
+  async create(author: ObjectId, item: ObjectId, content: string, parent?: ObjectId) {
+    if (parent) await this.assertCanReplyTo(parent, item);
+    const _id = await this.comments.createOne({ author, item, content, parent });
     const comment = await this.comments.readOne({ _id });
     if (!comment) throw new NotFoundError(`Comment ${_id} does not exist!`);
+    this.events.publish("created", comment);
     return { msg: "Comment successfully created!", comment };
   }
 
-  async getComments() {
-    return await this.comments.readMany({}, { sort: { _id: -1 } });
+  /**
+   * Get a page of comments, newest first, optionally only those by `author`.
+   * Tombstones, hidden comments and comments by `ignoredAuthors` are left out, and so are comments on items
+   * in collection `items.from` that don't match `items.filter`, if given.
+   */
+  async getComments(page?: PageOptions, author?: ObjectId, ignoredAuthors: ObjectId[] = [], items?: { from: string; filter: Document }) {
+    const base: Filter<CommentDoc> = { deleted: { $ne: true }, hidden: { $ne: true }, author: { $nin: ignoredAuthors } };
+    const filter = author ? { $and: [base, { author }] } : base;
+    if (!items) return await this.comments.readPage(filter, page);
+    return await this.comments.readPageJoined(filter, { ...items, localField: "item" }, page);
+  }
+
+  /**
+   * Get a page of all comments, newest first, optionally only the hidden ones.
+   */
+  async getAll(page?: PageOptions, hiddenOnly = false) {
+    return await this.comments.readPage(hiddenOnly ? { hidden: true } : { deleted: { $ne: true } }, page);
   }
 
   async getByAuthor(author: ObjectId) {
     return await this.comments.readMany({ author });
   }
 
+  async getByIds(ids: ObjectId[]) {
+    return await this.comments.readMany({ _id: { $in: ids } });
+  }
+
   async getByItem(item: ObjectId) {
     return await this.comments.readMany({ item });
   }
 
+  async getByItems(items: ObjectId[]) {
+    return await this.comments.readMany({ item: { $in: items } });
+  }
+
+  /**
+   * Get the comments on `item` as threads of replies, oldest first, nested at most `maxDepth` levels deep.
+   * Hidden comments and comments by `ignoredAuthors` keep their place in the thread but lose their content, like tombstones.
+   */
+  async getThreads(item: ObjectId, maxDepth = DEFAULT_THREAD_DEPTH, ignoredAuthors: ObjectId[] = []) {
+    if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_THREAD_DEPTH) {
+      throw new BadValuesError("Thread depth must be an integer between 1 and {0}!", MAX_THREAD_DEPTH);
+    }
+    const ignored = new Set(ignoredAuthors.map((author) => author.toString()));
+    const comments = (await this.comments.readMany({ item }, { sort: { dateCreated: 1, _id: 1 } })).map((comment) =>
+      comment.hidden || ignored.has(comment.author.toString()) ? { ...comment, content: "", hidden: true } : comment,
+    );
+    const replies = new Map<string, CommentDoc[]>();
+    for (const comment of comments) {
+      const key = comment.parent?.toString() ?? "";
+      replies.set(key, [...(replies.get(key) ?? []), comment]);
+    }
+    const toThread = (comment: CommentDoc, depth: number): CommentThread => {
+      const children = replies.get(comment._id.toString()) ?? [];
+      return { comment, replyCount: children.length, replies: depth < maxDepth ? children.map((child) => toThread(child, depth + 1)) : [] };
+    };
+    return (replies.get("") ?? []).map((comment) => toThread(comment, 1));
+  }
+
   async update(_id: ObjectId, content?: string) {
+    await this.assertCommentExists(_id);
     const update: Partial<CommentDoc> = {};
     if (content) update.content = content;
     await this.comments.partialUpdateOne({ _id }, update);
     return { msg: "Comment successfully updated!" };
   }
 
+  /**
+   * Hide comment `_id` from everyone, including its author, or show it again.
+   */
+  async setHidden(_id: ObjectId, hidden: boolean) {
+    await this.assertCommentExists(_id);
+    await this.comments.partialUpdateOne({ _id }, { hidden });
+    return { msg: hidden ? "Comment successfully hidden!" : "Comment successfully shown!" };
+  }
+
+  /**
+   * Delete the comment, leaving a tombstone in its place if it has replies.
+   * Tombstones left with no replies are removed as well.
+   */
   async delete(_id: ObjectId) {
-    await this.comments.deleteOne({ _id });
+    const comment = await this.comments.readOne({ _id });
+    await this.deleteOrTombstone({ _id });
+    let parent = comment?.parent;
+    while (parent && (await this.comments.count({ parent })) === 0) {
+      const tombstone = await this.comments.popOne({ _id: parent, deleted: true });
+      parent = tombstone?.parent;
+    }
     return { msg: "Comment deleted successfully!" };
   }
 
-  redactAuthor(comment: FormattedComment) {
+  async deleteByAuthor(author: ObjectId) {
+    await this.deleteOrTombstone({ author });
+    return { msg: "Comments deleted successfully!" };
+  }
+
+  async deleteByItems(items: ObjectId[]) {
+    await this.comments.deleteMany({ item: { $in: items } });
+    return { msg: "Comments deleted successfully!" };
+  }
+
+  async reassignAuthor(author: ObjectId, newAuthor: ObjectId) {
+    await this.comments.collection.updateMany({ author }, { $set: { author: newAuthor, dateUpdated: new Date() } });
+    return { msg: "Comments successfully reassigned!" };
+  }
+
+  /**
+   * Delete the comments matching `filter`, except those with a reply at any depth that is not deleted,
+   * which are turned into tombstones instead so that the replies stay in their thread.
+   */
+  private async deleteOrTombstone(filter: Filter<CommentDoc>) {
+    const matches = await this.comments.readMany(filter, { projection: { _id: 1, parent: 1 } });
+    const ids = matches.map((comment) => comment._id);
+    const parentOf = new Map(matches.map((comment) => [comment._id.toString(), comment.parent]));
+    const parents = (await this.comments.collection.distinct("parent", { parent: { $in: ids }, _id: { $nin: ids } })) as ObjectId[];
+    // Walk up from the parents of the surviving replies through the ancestors that are deleted too
+    const tombstones = new Map<string, ObjectId>();
+    for (const parent of parents) {
+      let current: ObjectId | undefined = parent;
+      while (current && parentOf.has(current.toString()) && !tombstones.has(current.toString())) {
+        tombstones.set(current.toString(), current);
+        current = parentOf.get(current.toString());
+      }
+    }
+    const kept = [...tombstones.values()];
+    await this.comments.collection.updateMany({ _id: { $in: kept } }, { $set: { content: "", deleted: true, dateUpdated: new Date() } });
+    await this.comments.deleteMany({ $and: [{ _id: { $in: ids } }, { _id: { $nin: kept } }] });
+  }
+
+  redactAuthor<Comment extends FormattedComment>(comment: Comment) {
     // eslint-disable-next-line
     const { author, ...rest } = comment;
     return rest;
   }
 
-  async assertUserIsAuthor(_id: ObjectId, user: ObjectId) {
-    const comment = await this.comments.readOne({ _id });
+  async assertCommentExists(_id: ObjectId) {
+    const comment = await this.comments.readOne({ _id, deleted: { $ne: true } });
     if (!comment) throw new NotFoundError(`Comment ${_id} does not exist!`);
+    return comment;
+  }
+
+  async assertUserIsAuthor(_id: ObjectId, user: ObjectId) {
+    const comment = await this.assertCommentExists(_id);
     if (!user.equals(comment.author)) throw new Error(`Comment ${_id} does not belong to user ${user}!`);
   }
+
+  private async assertCanReplyTo(parent: ObjectId, item: ObjectId) {
+    const comment = await this.assertCommentExists(parent);
+    if (!item.equals(comment.item)) throw new BadValuesError("Comment {0} is not on item {1}!", parent, item);
+  }
 }
 
 export class CommentAuthorNotMatchError extends NotAllowedError {
@@ -1,27 +1,136 @@
-import { ObjectId } from "mongodb";
+import { Filter, ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
-import { NotAllowedError, NotFoundError } from "./errors";
+import { assertValidTimezone, DEFAULT_TIMEZONE } from "../framework/days";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+/**
+ * How a member's entries are turned into a single leaderboard score.
+ */
+export enum ScoringRule {
+  SUM = "sum",
+  AVERAGE = "average",
+  BEST = "best",
+  LOWEST = "lowest",
+  DAYS = "days",
+}
+
+/**
+ * Where a competition is in its lifecycle. Scheduled, active and ended follow from the
+ * competition's dates, while finalized is set once its results have been recorded.
+ */
+export enum CompetitionStatus {
+  SCHEDULED = "scheduled",
+  ACTIVE = "active",
+  ENDED = "ended",
+  FINALIZED = "finalized",
+}
+
+/**
+ * What members of a competition are told around its end: that it is about to end, and that it ended.
+ */
+export enum CompetitionNotice {
+  ENDING = "ending",
+  ENDED = "ended",
+}
+
+/**
+ * Who can join a competition: anyone, those whose request the owner approved, or those with an invite code.
+ */
+export enum JoinPolicy {
+  OPEN = "open",
+  REQUEST = "request",
+  INVITE = "invite",
+}
+
+/**
+ * How a team's score is made from the scores of its members.
+ */
+export enum TeamScoring {
+  SUM = "sum",
+  AVERAGE = "average",
+}
+
+/**
+ * How a competition with teams runs them. Teams hold at most `maxSize` members, if set,
+ * and can't be joined, left or changed once the competition starts if `locked`.
+ */
+export interface TeamOptions {
+  scoring: TeamScoring;
+  maxSize?: number;
+  locked: boolean;
+}
 
 export interface CompetitionDoc extends BaseDoc {
   name: string;
   owner: ObjectId;
+  startDate: Date;
+  endDate: Date;
+  scoring?: ScoringRule;
+  joinPolicy?: JoinPolicy;
+  // Members who help the owner run the competition; they can do everything the owner can
+  // except delete the competition, transfer it and manage its admins
+  admins?: ObjectId[];
+  teams?: TeamOptions;
+  // The metric of the data that counts toward the competition, by default the default metric of the data
+  metric?: ObjectId;
+  // The IANA timezone the competition's calendar days are in, UTC if not set
+  timezone?: string;
+  finalizedAt?: Date;
+  hidden?: boolean;
+  // The notices the members were already sent, so that each is sent once
+  notices?: CompetitionNotice[];
+}
+
+/**
+ * A scored entry submitted to a competition. `day` is the calendar day the entry was logged on in its user's timezone,
+ * if known, and otherwise the entry falls on the UTC day of `date`.
+ */
+export interface ScoreEntry {
+  user: ObjectId;
+  date: Date;
+  day?: string;
+  score: number;
+  dateCreated: Date;
+}
+
+export interface Standing {
+  rank: number;
+  user: ObjectId;
+  score: number | null;
+  entries: number;
+}
+
+/**
+ * The standing of a team, along with the individual standings of its members.
+ */
+export interface TeamStanding<Member = Standing> {
+  rank: number;
+  team: ObjectId;
+  name: string;
+  score: number | null;
+  members: Member[];
+}
+
+/**
+ * The final standings of a competition, recorded once when it is finalized and never updated.
+ */
+export interface ResultDoc extends BaseDoc {
+  competition: ObjectId;
+  name: string;
+  startDate: Date;
   endDate: Date;
-  data: ObjectId[];
+  scoring: ScoringRule;
+  standings: Standing[];
+  winners: ObjectId[];
 }
 
 interface FormattedCompetition {
   owner: string;
-  data: {
-    user: string;
-    date: Date;
-    score: number;
-    _id: ObjectId;
-    dateCreated: Date;
-    dateUpdated: Date;
-  }[];
   name: string;
+  startDate: Date;
   endDate: Date;
+  status: CompetitionStatus;
   _id: ObjectId;
   dateCreated: Date;
   dateUpdated: Date;
@@ -32,28 +141,105 @@ interface FormattedCompetition {
  */
 export default class CompetingConcept {
   public readonly competitions: DocCollection<CompetitionDoc>;
+  public readonly results: DocCollection<ResultDoc>;
 
   constructor(collectionName: string) {
     this.competitions = new DocCollection<CompetitionDoc>(collectionName);
+    this.results = new DocCollection<ResultDoc>(collectionName + "_results");
   }
 
-  async create(owner: ObjectId, name: string, endDate: Date) {
+  async create(
+    owner: ObjectId,
+    name: string,
+    endDate: Date,
+    scoring: string = ScoringRule.SUM,
+    startDate: Date = new Date(),
+    joinPolicy: string = JoinPolicy.OPEN,
+    metric?: ObjectId,
+    timezone = DEFAULT_TIMEZONE,
+  ) {
+    assertValidTimezone(timezone);
     await this.assertNameUnique(name);
     await this.assertDateIsInFuture(endDate);
-    const _id = await this.competitions.createOne({ name, owner, endDate, data: [] });
+    this.assertValidDateRange(startDate, endDate);
+    this.assertValidScoringRule(scoring);
+    const policy = this.parseJoinPolicy(joinPolicy);
+    const _id = await this.competitions.createOne({ name, owner, startDate, endDate, scoring, joinPolicy: policy, metric, timezone });
     const competition = await this.competitions.readOne({ _id });
     if (!competition) throw new Error("Failed to create competition");
     return { msg: "Competition successfully created!", competition };
   }
 
-  async getCompetitions() {
-    return await this.competitions.readMany({ endDate: { $gt: new Date() } }, { sort: { endDate: 1 } });
+  /**
+   * Get a page of competitions in any of `statuses`, by default those that have not ended yet,
+   * ending soonest first. Optionally, only consider the competitions in `ids`. Hidden competitions are left out,
+   * and so are invite-only competitions outside of `memberOf`.
+   */
+  async getCompetitions(statuses: CompetitionStatus[] = [CompetitionStatus.SCHEDULED, CompetitionStatus.ACTIVE], page?: PageOptions, ids?: ObjectId[], memberOf: ObjectId[] = []) {
+    const now = new Date();
+    const filter: Filter<CompetitionDoc> = { $and: [{ $or: statuses.map((status) => this.statusFilter(status, now)) }, this.listedTo(memberOf)], hidden: { $ne: true } };
+    if (ids) filter._id = { $in: ids };
+    return await this.competitions.readPage(filter, page, "endDate", 1);
+  }
+
+  /**
+   * Get a page of competitions that have ended, most recently ended first, leaving out hidden competitions
+   * and invite-only competitions outside of `memberOf`.
+   */
+  async getPastCompetitions(page?: PageOptions, memberOf: ObjectId[] = []) {
+    const now = new Date();
+    const ended = [this.statusFilter(CompetitionStatus.ENDED, now), this.statusFilter(CompetitionStatus.FINALIZED, now)];
+    return await this.competitions.readPage({ $and: [{ $or: ended }, this.listedTo(memberOf)], hidden: { $ne: true } }, page, "endDate");
+  }
+
+  /**
+   * Get a page of all competitions, newest first, optionally only the hidden ones.
+   */
+  async getAll(page?: PageOptions, hiddenOnly = false) {
+    return await this.competitions.readPage(hiddenOnly ? { hidden: true } : {}, page);
+  }
+
+  getStatus(competition: CompetitionDoc, now = new Date()) {
+    if (competition.finalizedAt) return CompetitionStatus.FINALIZED;
+    if (competition.endDate <= now) return CompetitionStatus.ENDED;
+    // Competitions created before start dates existed began when they were created
+    if ((competition.startDate ?? competition.dateCreated) > now) return CompetitionStatus.SCHEDULED;
+    return CompetitionStatus.ACTIVE;
+  }
+
+  getJoinPolicy(competition: CompetitionDoc) {
+    return competition.joinPolicy ?? JoinPolicy.OPEN;
+  }
+
+  parseJoinPolicy(joinPolicy: string) {
+    if (!(Object.values(JoinPolicy) as string[]).includes(joinPolicy)) {
+      throw new BadValuesError(`Join policy must be one of: ${Object.values(JoinPolicy).join(", ")}!`);
+    }
+    return joinPolicy as JoinPolicy;
+  }
+
+  parseStatus(status: string) {
+    if (!(Object.values(CompetitionStatus) as string[]).includes(status)) {
+      throw new BadValuesError(`Competition status must be one of: ${Object.values(CompetitionStatus).join(", ")}!`);
+    }
+    return status as CompetitionStatus;
+  }
+
+  /**
+   * Whether any competition counts the data of `metric`.
+   */
+  async usesMetric(metric: ObjectId) {
+    return (await this.competitions.readOne({ metric })) !== null;
   }
 
   async getByOwner(owner: ObjectId) {
     return await this.competitions.readMany({ owner });
   }
 
+  async getByIds(ids: ObjectId[]) {
+    return await this.competitions.readMany({ _id: { $in: ids } });
+  }
+
   async getById(_id: ObjectId) {
     const competition = await this.competitions.readOne({ _id });
     if (!competition) throw new NotFoundError(`Competition ${_id} does not exist!`);
@@ -66,21 +252,181 @@ export default class CompetingConcept {
     return competition;
   }
 
-  async update(_id: ObjectId, name?: string, owner?: ObjectId, endDate?: Date) {
-    await this.assertCompetitionIsActive(_id);
-    await this.assertValidUpdateInfo(_id, name, owner, endDate);
+  /**
+   * Same as {@link getByName} but gets `null` if there is no competition named `name`.
+   */
+  async findByName(name: string) {
+    return await this.competitions.readOne({ name });
+  }
+
+  async update(_id: ObjectId, name?: string, endDate?: Date, startDate?: Date, joinPolicy?: string, timezone?: string) {
+    await this.assertCompetitionHasNotEnded(_id);
+    await this.assertValidUpdateInfo(_id, name, endDate, startDate);
     const update: Partial<CompetitionDoc> = {};
+    if (timezone) {
+      assertValidTimezone(timezone);
+      update.timezone = timezone;
+    }
+    if (joinPolicy) update.joinPolicy = this.parseJoinPolicy(joinPolicy);
     if (name) update.name = name;
-    if (owner) update.owner = owner;
-    if (endDate) update.endDate = endDate;
+    if (endDate) {
+      update.endDate = endDate;
+      // Members are reminded again of the new end
+      update.notices = [];
+    }
+    if (startDate) update.startDate = startDate;
     await this.competitions.partialUpdateOne({ _id }, update);
     return { msg: "Competition successfully updated!" };
   }
 
-  async inputData(_id: ObjectId, data: ObjectId) {
-    await this.assertCompetitionIsActive(_id);
-    await this.competitions.collection.updateOne({ _id }, { $push: { data } });
-    return { msg: "Data successfully added!" };
+  /**
+   * Make `owner` the owner of competition `_id`. If `owner` was an admin, they stop being one.
+   */
+  async transferOwnership(_id: ObjectId, owner: ObjectId) {
+    await this.assertUserIsNotOwner(owner, _id);
+    await this.competitions.collection.updateOne({ _id }, { $set: { owner, dateUpdated: new Date() }, $pull: { admins: owner } });
+    return { msg: "Competition ownership successfully transferred!" };
+  }
+
+  async addAdmin(_id: ObjectId, user: ObjectId) {
+    const competition = await this.getById(_id);
+    if (this.isAdmin(competition, user)) throw new NotAllowedError(`User ${user} is already an admin of ${competition.name}!`);
+    await this.competitions.collection.updateOne({ _id }, { $addToSet: { admins: user }, $set: { dateUpdated: new Date() } });
+    return { msg: "Competition admin successfully added!" };
+  }
+
+  async removeAdmin(_id: ObjectId, user: ObjectId) {
+    const removal = await this.competitions.collection.updateOne({ _id, admins: user }, { $pull: { admins: user }, $set: { dateUpdated: new Date() } });
+    if (removal.modifiedCount === 0) throw new NotFoundError(`User ${user} is not an admin of competition ${_id}!`);
+    return { msg: "Competition admin successfully removed!" };
+  }
+
+  /**
+   * Remove `user` from the admins of every competition.
+   */
+  async removeAdminFromAll(user: ObjectId) {
+    await this.competitions.collection.updateMany({ admins: user }, { $pull: { admins: user } });
+    return { msg: "Admin roles successfully removed!" };
+  }
+
+  /**
+   * Get everyone who runs `competition`: its owner, then its admins.
+   */
+  getAdmins(competition: CompetitionDoc) {
+    return [competition.owner, ...(competition.admins ?? [])];
+  }
+
+  /**
+   * Whether `user` runs `competition`, as either its owner or one of its admins.
+   */
+  isAdmin(competition: CompetitionDoc, user: ObjectId) {
+    return this.getAdmins(competition).some((admin) => admin.equals(user));
+  }
+
+  /**
+   * Turn teams on for competition `_id` with the given options, or update them.
+   */
+  async setTeamOptions(_id: ObjectId, scoring: string = TeamScoring.SUM, maxSize?: number, locked = false) {
+    await this.assertCompetitionHasNotEnded(_id);
+    if (!(Object.values(TeamScoring) as string[]).includes(scoring)) {
+      throw new BadValuesError(`Team scoring must be one of: ${Object.values(TeamScoring).join(", ")}!`);
+    }
+    if (maxSize !== undefined && (!Number.isInteger(maxSize) || maxSize < 1)) throw new BadValuesError("Teams must allow at least one member!");
+    await this.competitions.partialUpdateOne({ _id }, { teams: { scoring: scoring as TeamScoring, maxSize, locked } });
+    return { msg: "Competition team options successfully updated!" };
+  }
+
+  /**
+   * Get the team options of `competition`, asserting that it has teams.
+   */
+  getTeamOptions(competition: CompetitionDoc) {
+    if (!competition.teams) throw new NotAllowedError(`Competition ${competition.name} does not have teams!`);
+    return competition.teams;
+  }
+
+  /**
+   * Assert that the teams of `competition` can still be joined, left and changed.
+   */
+  assertTeamsAreOpen(competition: CompetitionDoc) {
+    const options = this.getTeamOptions(competition);
+    const status = this.getStatus(competition);
+    if (status === CompetitionStatus.ENDED || status === CompetitionStatus.FINALIZED) throw new NotAllowedError(`Competition ${competition.name} has already ended!`);
+    if (options.locked && status !== CompetitionStatus.SCHEDULED) throw new NotAllowedError(`Teams of competition ${competition.name} are locked!`);
+  }
+
+  /**
+   * Get the date window of `competition`; only entries dated within it count toward its standings.
+   */
+  getWindow(competition: CompetitionDoc): [Date, Date] {
+    return [competition.startDate ?? competition.dateCreated, competition.endDate];
+  }
+
+  /**
+   * Record the final `standings` of an ended competition and mark it as finalized.
+   * The recorded results are immutable afterwards. Of concurrent finalizations, only the first records results.
+   */
+  async finalize(_id: ObjectId, standings: Standing[]) {
+    const competition = await this.getById(_id);
+    const status = this.getStatus(competition);
+    if (status === CompetitionStatus.FINALIZED) throw new NotAllowedError(`Competition ${competition.name} has already been finalized!`);
+    if (status !== CompetitionStatus.ENDED) throw new NotAllowedError(`Competition ${competition.name} has not ended yet!`);
+    const claim = await this.competitions.collection.updateOne({ _id, finalizedAt: { $exists: false } }, { $set: { finalizedAt: new Date(), dateUpdated: new Date() } });
+    if (claim.modifiedCount === 0) throw new NotAllowedError(`Competition ${competition.name} has already been finalized!`);
+
+    const winners = standings.filter((standing) => standing.rank === 1 && standing.score !== null).map((standing) => standing.user);
+    await this.results.createOne({
+      competition: _id,
+      name: competition.name,
+      startDate: competition.startDate ?? competition.dateCreated,
+      endDate: competition.endDate,
+      scoring: competition.scoring ?? ScoringRule.SUM,
+      standings,
+      winners,
+    });
+    return { msg: "Competition successfully finalized!", result: await this.getResults(_id) };
+  }
+
+  async getResults(competition: ObjectId) {
+    const result = await this.results.readOne({ competition });
+    if (!result) throw new NotFoundError(`Competition ${competition} has not been finalized yet!`);
+    return result;
+  }
+
+  /**
+   * Get the competitions that are not finalized and end within `withinMs` after `now`, whose members were not reminded yet.
+   */
+  async getEndingSoon(now: Date, withinMs: number) {
+    return await this.competitions.readMany({
+      endDate: { $gt: now, $lte: new Date(now.getTime() + withinMs) },
+      finalizedAt: { $exists: false },
+      notices: { $ne: CompetitionNotice.ENDING },
+    });
+  }
+
+  /**
+   * Get the competitions that ended within `withinMs` before `now`, whose members were not told yet.
+   * Competitions that ended longer ago are not announced anymore.
+   */
+  async getRecentlyEnded(now: Date, withinMs: number) {
+    return await this.competitions.readMany({ endDate: { $gt: new Date(now.getTime() - withinMs), $lte: now }, notices: { $ne: CompetitionNotice.ENDED } });
+  }
+
+  /**
+   * Record that the members of competition `_id` were sent `notice`, unless they already were.
+   * @returns Whether the notice was recorded now, in which case it is up to the caller to send it
+   */
+  async markNoticeSent(_id: ObjectId, notice: CompetitionNotice) {
+    const update = await this.competitions.collection.updateOne({ _id, notices: { $ne: notice } }, { $addToSet: { notices: notice }, $set: { dateUpdated: new Date() } });
+    return update.modifiedCount > 0;
+  }
+
+  /**
+   * Hide competition `_id` from listings, or show it again.
+   */
+  async setHidden(_id: ObjectId, hidden: boolean) {
+    await this.getById(_id);
+    await this.competitions.partialUpdateOne({ _id }, { hidden });
+    return { msg: hidden ? "Competition successfully hidden!" : "Competition successfully shown!" };
   }
 
   async delete(_id: ObjectId) {
@@ -88,6 +434,101 @@ export default class CompetingConcept {
     return { msg: "Competition successfully deleted!" };
   }
 
+  /**
+   * Rank `members` of `competition` by scoring their `entries` with the competition's scoring rule,
+   * where `lowerIsBetter` if lower scores are better for the competition's metric.
+   * Entries from users who are not members are ignored, and members without entries are ranked last.
+   * Ties are broken in favor of the member whose last entry was logged first, then by user id.
+   */
+  getStandings(competition: CompetitionDoc, members: ObjectId[], entries: ScoreEntry[], lowerIsBetter = false): Standing[] {
+    const scoring = competition.scoring ?? ScoringRule.SUM;
+    const entriesByMember = new Map<string, ScoreEntry[]>(members.map((member) => [member.toString(), []]));
+    for (const entry of entries) {
+      entriesByMember.get(entry.user.toString())?.push(entry);
+    }
+
+    const scored = members.map((user) => {
+      const userEntries = entriesByMember.get(user.toString())!;
+      const lastLogged = Math.max(...userEntries.map((entry) => entry.dateCreated.getTime()));
+      return { user, score: this.score(scoring, userEntries, lowerIsBetter), entries: userEntries.length, lastLogged };
+    });
+
+    scored.sort((a, b) => {
+      if (a.score === null || b.score === null) {
+        if (a.score !== b.score) return a.score === null ? 1 : -1;
+      } else if (a.score !== b.score) {
+        return this.ranksAscending(scoring, lowerIsBetter) ? a.score - b.score : b.score - a.score;
+      }
+      if (a.lastLogged !== b.lastLogged) return a.lastLogged - b.lastLogged;
+      return a.user.toString().localeCompare(b.user.toString());
+    });
+
+    return scored.map(({ user, score, entries }, i) => ({ rank: i + 1, user, score, entries }));
+  }
+
+  /**
+   * Rank `teams` of `competition` by combining the individual `standings` of their members with the competition's
+   * team scoring. Averages leave out members without a score. Sums count them as zero, or as the worst individual
+   * score of the competition when lower scores rank first, so that idle members never help a team. Teams without any
+   * scored member are ranked last.
+   * Ties are broken by team name. Each team's members keep their individual ranks.
+   */
+  getTeamStandings(competition: CompetitionDoc, teams: { _id: ObjectId; name: string; members: ObjectId[] }[], standings: Standing[], lowerIsBetter = false): TeamStanding[] {
+    const options = this.getTeamOptions(competition);
+    const ascending = this.ranksAscending(competition.scoring ?? ScoringRule.SUM, lowerIsBetter);
+    const standingsByUser = new Map(standings.map((standing) => [standing.user.toString(), standing]));
+    const individualScores = standings.map((standing) => standing.score).filter((score) => score !== null);
+    const idlePenalty = ascending && individualScores.length > 0 ? Math.max(...individualScores) : 0;
+
+    const scored = teams.map((team) => {
+      const members = team.members.map((member) => standingsByUser.get(member.toString())).filter((standing) => standing !== undefined);
+      members.sort((a, b) => a.rank - b.rank);
+      const scores = members.map((member) => member.score).filter((score) => score !== null);
+      const sum = scores.reduce((total, score) => total + score, 0);
+      const idle = members.length - scores.length;
+      const score = scores.length === 0 ? null : options.scoring === TeamScoring.AVERAGE ? sum / scores.length : sum + idle * idlePenalty;
+      return { team: team._id, name: team.name, score, members };
+    });
+
+    scored.sort((a, b) => {
+      if (a.score === null || b.score === null) {
+        if (a.score !== b.score) return a.score === null ? 1 : -1;
+      } else if (a.score !== b.score) {
+        return ascending ? a.score - b.score : b.score - a.score;
+      }
+      return a.name.localeCompare(b.name);
+    });
+
+    return scored.map((team, i) => ({ rank: i + 1, ...team }));
+  }
+
+  /**
+   * Whether lower scores rank first under `scoring`. Days logged always rank the most days first,
+   * and the lowest sum always ranks the lowest first, whatever the metric.
+   */
+  private ranksAscending(scoring: ScoringRule, lowerIsBetter: boolean) {
+    if (scoring === ScoringRule.LOWEST) return true;
+    if (scoring === ScoringRule.DAYS) return false;
+    return lowerIsBetter;
+  }
+
+  private score(scoring: ScoringRule, entries: ScoreEntry[], lowerIsBetter: boolean) {
+    if (entries.length === 0) return null;
+    const scores = entries.map((entry) => entry.score);
+    const sum = scores.reduce((total, score) => total + score, 0);
+    switch (scoring) {
+      case ScoringRule.SUM:
+      case ScoringRule.LOWEST:
+        return sum;
+      case ScoringRule.AVERAGE:
+        return sum / scores.length;
+      case ScoringRule.BEST:
+        return lowerIsBetter ? Math.min(...scores) : Math.max(...scores);
+      case ScoringRule.DAYS:
+        return new Set(entries.map((entry) => entry.day ?? entry.date.toISOString().slice(0, 10))).size;
+    }
+  }
+
   redactOwner(competition: FormattedCompetition) {
     // eslint-disable-next-line
     const { owner, ...rest } = competition;
@@ -100,22 +541,71 @@ export default class CompetingConcept {
     if (!user.equals(competitionData.owner)) throw new CompetitionOwnerNotMatchError(user, _id);
   }
 
-  private async assertCompetitionIsActive(_id: ObjectId) {
-    const competition = await this.competitions.readOne({ _id });
-    if (!competition) throw new NotFoundError(`Competition ${_id} does not exist!`);
-    if (competition.endDate < new Date()) throw new NotAllowedError(`Competition ${competition.name} has already ended!`);
+  async assertUserIsAdmin(_id: ObjectId, user: ObjectId) {
+    const competition = await this.getById(_id);
+    if (!this.isAdmin(competition, user)) throw new CompetitionAdminNotMatchError(user, _id);
+  }
+
+  /**
+   * Assert that `competition` is listed to `user`, if any, who is a member of `memberOf`, like {@link getCompetitions} lists them:
+   * invite-only competitions can only be seen by their owner and members.
+   */
+  assertIsListedTo(competition: CompetitionDoc, memberOf: ObjectId[], user?: ObjectId) {
+    if (this.getJoinPolicy(competition) !== JoinPolicy.INVITE) return;
+    if (user?.equals(competition.owner) || memberOf.some((group) => group.equals(competition._id))) return;
+    throw new NotAllowedError("Competition {0} is invite-only!", competition.name);
+  }
+
+  private async assertCompetitionHasNotEnded(_id: ObjectId) {
+    const competition = await this.getById(_id);
+    const status = this.getStatus(competition);
+    if (status === CompetitionStatus.ENDED || status === CompetitionStatus.FINALIZED) throw new NotAllowedError(`Competition ${competition.name} has already ended!`);
+    return competition;
   }
 
-  private async assertValidUpdateInfo(_id: ObjectId, name?: string, owner?: ObjectId, endDate?: Date) {
+  private async assertValidUpdateInfo(_id: ObjectId, name?: string, endDate?: Date, startDate?: Date) {
     if (name) await this.assertNameUnique(name);
-    if (owner) await this.assertUserIsNotOwner(owner, _id);
     if (endDate) await this.assertDateIsInFuture(endDate);
+    if (endDate || startDate) {
+      const competition = await this.getById(_id);
+      this.assertValidDateRange(startDate ?? competition.startDate ?? competition.dateCreated, endDate ?? competition.endDate);
+    }
+  }
+
+  /**
+   * Filter for the competitions listed to a user who is a member of `memberOf`: all but the invite-only ones they are not in.
+   */
+  private listedTo(memberOf: ObjectId[]): Filter<CompetitionDoc> {
+    return { $or: [{ joinPolicy: { $ne: JoinPolicy.INVITE } }, { _id: { $in: memberOf } }] };
+  }
+
+  private statusFilter(status: CompetitionStatus, now: Date): Filter<CompetitionDoc> {
+    switch (status) {
+      case CompetitionStatus.SCHEDULED:
+        return { startDate: { $gt: now }, endDate: { $gt: now }, finalizedAt: { $exists: false } };
+      case CompetitionStatus.ACTIVE:
+        return { $or: [{ startDate: { $lte: now } }, { startDate: { $exists: false } }], endDate: { $gt: now }, finalizedAt: { $exists: false } };
+      case CompetitionStatus.ENDED:
+        return { endDate: { $lte: now }, finalizedAt: { $exists: false } };
+      case CompetitionStatus.FINALIZED:
+        return { finalizedAt: { $exists: true } };
+    }
+  }
+
+  private assertValidDateRange(startDate: Date, endDate: Date) {
+    if (startDate >= endDate) throw new BadValuesError("Competition must start before it ends!");
   }
 
   private async assertUserIsNotOwner(user: ObjectId, competition: ObjectId) {
     const competitionData = await this.competitions.readOne({ _id: competition });
     if (!competitionData) throw new NotFoundError(`Competition ${competition} does not exist!`);
-    if (!user.equals(competitionData.owner)) throw new NotAllowedError(`User ${user} is already the owner of ${competition}!`);
+    if (user.equals(competitionData.owner)) throw new NotAllowedError(`User ${user} is already the owner of ${competition}!`);
+  }
+
+  private assertValidScoringRule(scoring: string): asserts scoring is ScoringRule {
+    if (!(Object.values(ScoringRule) as string[]).includes(scoring)) {
+      throw new BadValuesError(`Scoring rule must be one of: ${Object.values(ScoringRule).join(", ")}!`);
+    }
   }
 
   private async assertNameUnique(name: string) {
@@ -136,6 +626,15 @@ export class CompetitionOwnerNotMatchError extends NotAllowedError {
   }
 }
 
+export class CompetitionAdminNotMatchError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly competition: ObjectId,
+  ) {
+    super("User {0} is not an admin of {1}!", user, competition);
+  }
+}
+
 export class DateNotInFutureError extends NotAllowedError {
   constructor(public readonly date: Date) {
     const dateStr = date.toLocaleDateString("en-US", { year: "numeric", month: "2-digit", day: "2-digit" });
@@ -0,0 +1,143 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import EventBus from "../framework/events";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+/**
+ * A dispute is open until it is resolved: the item is accepted as is, rejected, or adjusted to another score.
+ */
+export enum DisputeStatus {
+  OPEN = "open",
+  ACCEPTED = "accepted",
+  REJECTED = "rejected",
+  ADJUSTED = "adjusted",
+}
+
+/**
+ * A challenge of scored `item` within `group`. Disputes without an `opener` were opened automatically
+ * because the item looked like an outlier. Resolved disputes are kept as an audit trail.
+ */
+export interface DisputeDoc extends BaseDoc {
+  group: ObjectId;
+  item: ObjectId;
+  opener?: ObjectId;
+  reason: string;
+  status: DisputeStatus;
+  resolvedBy?: ObjectId;
+  adjustedScore?: number;
+  note?: string;
+}
+
+/**
+ * concept: Disputing [User, Item, Group]
+ */
+export default class DisputingConcept {
+  public readonly disputes: DocCollection<DisputeDoc>;
+  public readonly events = new EventBus<{ resolved: DisputeDoc }>();
+
+  constructor(collectionName: string) {
+    this.disputes = new DocCollection<DisputeDoc>(collectionName);
+  }
+
+  async open(group: ObjectId, item: ObjectId, opener: ObjectId, reason: string) {
+    if (await this.getOpenDispute(group, item)) throw new DisputeAlreadyOpenError(group, item);
+    const _id = await this.disputes.createOne({ group, item, opener, reason, status: DisputeStatus.OPEN });
+    const dispute = await this.disputes.readOne({ _id });
+    if (!dispute) throw new Error("Failed to open dispute");
+    return { msg: "Dispute successfully opened!", dispute };
+  }
+
+  /**
+   * Open a dispute on `item` in `group` without an opener, unless one is already open.
+   * @returns Whether a dispute was opened
+   */
+  async flag(group: ObjectId, item: ObjectId, reason: string) {
+    if (await this.getOpenDispute(group, item)) return false;
+    await this.disputes.createOne({ group, item, reason, status: DisputeStatus.OPEN });
+    return true;
+  }
+
+  /**
+   * Get a page of the disputes in `group`, newest first, optionally only those with `status`.
+   */
+  async getDisputes(group: ObjectId, status?: DisputeStatus, page?: PageOptions) {
+    return await this.disputes.readPage(status ? { group, status } : { group }, page);
+  }
+
+  async getDispute(_id: ObjectId) {
+    const dispute = await this.disputes.readOne({ _id });
+    if (!dispute) throw new NotFoundError(`Dispute ${_id} does not exist!`);
+    return dispute;
+  }
+
+  /**
+   * Close open dispute `_id`. Adjusting replaces the item's score with `adjustedScore` within the group.
+   */
+  async resolve(_id: ObjectId, resolver: ObjectId, resolution: DisputeStatus, adjustedScore?: number, note?: string) {
+    const dispute = await this.getDispute(_id);
+    if (dispute.status !== DisputeStatus.OPEN) throw new NotAllowedError(`Dispute ${_id} was already ${dispute.status}!`);
+    if (resolution === DisputeStatus.ADJUSTED && adjustedScore === undefined) throw new BadValuesError("Adjusting a dispute requires a score!");
+    const update: Partial<DisputeDoc> = { status: resolution, resolvedBy: resolver, note };
+    if (resolution === DisputeStatus.ADJUSTED) update.adjustedScore = adjustedScore;
+    await this.disputes.partialUpdateOne({ _id }, update);
+    this.events.publish("resolved", { ...dispute, ...update });
+    return { msg: `Dispute successfully ${resolution}!` };
+  }
+
+  /**
+   * Apply the outcomes of the resolved disputes in `group` to `items`: items whose latest resolved dispute
+   * rejected them are left out, and those it adjusted get the adjusted score.
+   */
+  async applyOutcomes<Item extends { _id: ObjectId; score: number }>(group: ObjectId, items: Item[]) {
+    const resolved = await this.disputes.readMany({ group, item: { $in: items.map((item) => item._id) }, status: { $ne: DisputeStatus.OPEN } }, { sort: { dateUpdated: 1 } });
+    // Later resolutions overwrite earlier ones
+    const outcomes = new Map(resolved.map((dispute) => [dispute.item.toString(), dispute]));
+    return items.flatMap((item) => {
+      const outcome = outcomes.get(item._id.toString());
+      if (outcome?.status === DisputeStatus.REJECTED) return [];
+      if (outcome?.status === DisputeStatus.ADJUSTED && outcome.adjustedScore !== undefined) return [{ ...item, score: outcome.adjustedScore }];
+      return [item];
+    });
+  }
+
+  parseResolution(resolution: string) {
+    const resolutions = Object.values(DisputeStatus).filter((status) => status !== DisputeStatus.OPEN) as string[];
+    if (!resolutions.includes(resolution)) throw new BadValuesError(`Resolution must be one of: ${resolutions.join(", ")}!`);
+    return resolution as DisputeStatus;
+  }
+
+  /**
+   * Parse the status to filter disputes by, where no status means any status.
+   */
+  parseStatus(status?: string) {
+    if (status === undefined) return undefined;
+    if (!(Object.values(DisputeStatus) as string[]).includes(status)) {
+      throw new BadValuesError(`Dispute status must be one of: ${Object.values(DisputeStatus).join(", ")}!`);
+    }
+    return status as DisputeStatus;
+  }
+
+  async removeGroup(group: ObjectId) {
+    await this.disputes.deleteMany({ group });
+    return { msg: "Disputes successfully removed!" };
+  }
+
+  async removeItems(items: ObjectId[]) {
+    await this.disputes.deleteMany({ item: { $in: items } });
+    return { msg: "Disputes successfully removed!" };
+  }
+
+  private async getOpenDispute(group: ObjectId, item: ObjectId) {
+    return await this.disputes.readOne({ group, item, status: DisputeStatus.OPEN });
+  }
+}
+
+export class DisputeAlreadyOpenError extends NotAllowedError {
+  constructor(
+    public readonly group: ObjectId,
+    public readonly item: ObjectId,
+  ) {
+    super("Item {1} already has an open dispute in group {0}!", group, item);
+  }
+}
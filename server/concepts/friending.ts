@@ -1,5 +1,6 @@
 import { ObjectId } from "mongodb";
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import EventBus from "../framework/events";
 import { NotAllowedError, NotFoundError } from "./errors";
 
 export interface FriendshipDoc extends BaseDoc {
@@ -19,6 +20,7 @@ export interface FriendRequestDoc extends BaseDoc {
 export default class FriendingConcept {
   public readonly friends: DocCollection<FriendshipDoc>;
   public readonly requests: DocCollection<FriendRequestDoc>;
+  public readonly events = new EventBus<{ request: { from: ObjectId; to: ObjectId } }>();
 
   /**
    * Make an instance of Friending.
@@ -34,9 +36,17 @@ export default class FriendingConcept {
     });
   }
 
+  /**
+   * Same as {@link getRequests} but reads one page of the requests, newest first.
+   */
+  async getRequestsPage(user: ObjectId, page?: PageOptions) {
+    return await this.requests.readPage({ $or: [{ from: user }, { to: user }] }, page);
+  }
+
   async sendRequest(from: ObjectId, to: ObjectId) {
     await this.canSendRequest(from, to);
     await this.requests.createOne({ from, to, status: "pending" });
+    this.events.publish("request", { from, to });
     return { msg: "Sent request!" };
   }
 
@@ -70,6 +80,26 @@ export default class FriendingConcept {
     return { msg: "Unfriended!" };
   }
 
+  /**
+   * Remove every friendship and friend request involving `user`.
+   */
+  async removeUser(user: ObjectId) {
+    await Promise.all([this.friends.deleteMany({ $or: [{ user1: user }, { user2: user }] }), this.requests.deleteMany({ $or: [{ from: user }, { to: user }] })]);
+    return { msg: "Friendships and requests removed!" };
+  }
+
+  /**
+   * Remove the friendship and any pending friend requests between `user1` and `user2`, if there are any.
+   */
+  async removeBetween(user1: ObjectId, user2: ObjectId) {
+    const pair = [
+      { user1, user2 },
+      { user1: user2, user2: user1 },
+    ];
+    await Promise.all([this.friends.deleteMany({ $or: pair }), this.requests.deleteMany({ from: { $in: [user1, user2] }, to: { $in: [user1, user2] }, status: "pending" })]);
+    return { msg: "Friendship and requests removed!" };
+  }
+
   async getFriends(user: ObjectId) {
     const friendships = await this.friends.readMany({
       $or: [{ user1: user }, { user2: user }],
@@ -77,6 +107,14 @@ export default class FriendingConcept {
     return friendships.map((friendship) => (user.equals(friendship.user1) ? friendship.user2 : friendship.user1));
   }
 
+  /**
+   * Same as {@link getFriends} but reads one page of the friends, newest friendship first.
+   */
+  async getFriendsPage(user: ObjectId, page?: PageOptions) {
+    const friendships = await this.friends.readPage({ $or: [{ user1: user }, { user2: user }] }, page);
+    return { ...friendships, items: friendships.items.map((friendship) => (user.equals(friendship.user1) ? friendship.user2 : friendship.user1)) };
+  }
+
   private async addFriend(user1: ObjectId, user2: ObjectId) {
     void this.friends.createOne({ user1, user2 });
   }
@@ -0,0 +1,128 @@
+import { addDays } from "../framework/days";
+import { BadValuesError } from "./errors";
+
+/**
+ * A score read from one line of imported text, still as text. `date` is a calendar day or a full date and time,
+ * and `metric` the name or id of a metric if the text names one. Rows that could not be read have an `error` instead.
+ */
+export interface ImportRow {
+  line: number;
+  date?: string;
+  score?: string;
+  metric?: string;
+  error?: string;
+}
+
+/**
+ * Reads the scores out of text in one format, e.g. a spreadsheet or the share text of a game.
+ */
+export interface ScoreParser {
+  format: string;
+  description: string;
+  parse(text: string): ImportRow[];
+}
+
+const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Parses CSV with a header row naming a `date` and a `score` column, and optionally a `metric` column.
+ * Other columns are ignored, so the `dataCsv` of an export can be imported as is.
+ */
+export const CsvParser: ScoreParser = {
+  format: "csv",
+  description: "CSV with a header row and date, score and optionally metric columns",
+  parse(text) {
+    const lines = text.split(/\r?\n/);
+    const header = splitCsvLine(lines[0] ?? "").map((column) => column.trim().toLowerCase());
+    const [dateColumn, scoreColumn, metricColumn] = ["date", "score", "metric"].map((column) => header.indexOf(column));
+    if (dateColumn === -1 || scoreColumn === -1) throw new BadValuesError("CSV must have a header row with date and score columns!");
+    return lines.slice(1).flatMap((line, i) => {
+      if (line.trim() === "") return [];
+      const cells = splitCsvLine(line).map((cell) => cell.trim());
+      const row: ImportRow = { line: i + 2, date: cells[dateColumn], score: cells[scoreColumn], metric: metricColumn === -1 ? undefined : cells[metricColumn] || undefined };
+      if (!row.date || !row.score) return [{ ...row, error: "Row must have a date and a score!" }];
+      return [row];
+    });
+  },
+};
+
+// The day of Wordle puzzle number 0
+const FIRST_WORDLE_DAY = "2021-06-19";
+
+/**
+ * Parses pasted Wordle share messages such as `Wordle 1,234 4/6`, taking the number of guesses as the score
+ * and the puzzle's day as the date. Failed puzzles (`X/6`) score 7. Other lines, such as the emoji grids, are skipped.
+ */
+export const WordleParser: ScoreParser = {
+  format: "wordle",
+  description: "Wordle share text, one or more `Wordle 1,234 4/6` results",
+  parse(text) {
+    return text.split(/\r?\n/).flatMap((line, i) => {
+      const match = /^\s*Wordle\s+([\d,.\s]*\d)\s+([1-6X])\/6\*?\s*$/i.exec(line);
+      if (!match) return [];
+      const puzzle = Number(match[1].replace(/[,.\s]/g, ""));
+      const guesses = match[2].toUpperCase() === "X" ? "7" : match[2];
+      return [{ line: i + 1, date: addDays(FIRST_WORDLE_DAY, puzzle), score: guesses }];
+    });
+  },
+};
+
+/**
+ * concept: Importing
+ */
+export default class ImportingConcept {
+  private readonly parsers = new Map<string, ScoreParser>();
+
+  constructor(parsers: ScoreParser[] = []) {
+    parsers.forEach((parser) => this.register(parser));
+  }
+
+  /**
+   * Add a parser for another format, replacing any parser of the same format.
+   */
+  register(parser: ScoreParser) {
+    this.parsers.set(parser.format, parser);
+  }
+
+  getFormats() {
+    return [...this.parsers.values()].map((parser) => ({ format: parser.format, description: parser.description }));
+  }
+
+  /**
+   * Read the scores out of `text` in `format`.
+   */
+  parse(format: string, text: string) {
+    const parser = this.parsers.get(format);
+    if (!parser) throw new BadValuesError(`Import format must be one of: ${[...this.parsers.keys()].join(", ")}!`);
+    if (!text) throw new BadValuesError("Nothing to import!");
+    const rows = parser.parse(text);
+    if (rows.length === 0) throw new BadValuesError(`No scores found in the ${format} text!`);
+    if (rows.length > MAX_IMPORT_ROWS) throw new BadValuesError(`At most ${MAX_IMPORT_ROWS} scores can be imported at once!`);
+    return rows;
+  }
+}
+
+/**
+ * Split one line of CSV into its cells, where quoted cells may contain commas and doubled quotes.
+ */
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
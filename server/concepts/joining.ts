@@ -1,21 +1,48 @@
+import { randomBytes } from "crypto";
 import { ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
-import { NotAllowedError, NotFoundError } from "./errors";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
 export interface MembershipDoc extends BaseDoc {
   user: ObjectId;
   group: ObjectId;
 }
 
+/**
+ * A pending request of `user` to join `group`, waiting for approval.
+ */
+export interface JoinRequestDoc extends BaseDoc {
+  user: ObjectId;
+  group: ObjectId;
+}
+
+/**
+ * A shareable code that lets whoever has it join `group`, until it expires or has been used `maxUses` times.
+ */
+export interface InviteDoc extends BaseDoc {
+  group: ObjectId;
+  code: string;
+  creator: ObjectId;
+  uses: number;
+  maxUses?: number;
+  expiresAt?: Date;
+}
+
+const INVITE_CODE_BYTES = 6;
+
 /**
  * Joining [User, Group]
  */
 export default class JoiningConcept {
   public readonly memberships: DocCollection<MembershipDoc>;
+  public readonly requests: DocCollection<JoinRequestDoc>;
+  public readonly invites: DocCollection<InviteDoc>;
 
   constructor(collectionName: string) {
     this.memberships = new DocCollection<MembershipDoc>(collectionName);
+    this.requests = new DocCollection<JoinRequestDoc>(collectionName + "_requests");
+    this.invites = new DocCollection<InviteDoc>(collectionName + "_invites");
   }
 
   async join(user: ObjectId, group: ObjectId) {
@@ -32,20 +59,120 @@ export default class JoiningConcept {
     return { msg: "Group successfully left!" };
   }
 
+  /**
+   * Remove `user` from `group` on behalf of the group, as opposed to the user leaving it.
+   */
+  async kick(user: ObjectId, group: ObjectId) {
+    await this.assertUserIsMember(user, group);
+    await this.memberships.deleteOne({ user, group });
+    return { msg: "Member successfully removed from group!" };
+  }
+
+  async leaveAll(user: ObjectId) {
+    await Promise.all([this.memberships.deleteMany({ user }), this.requests.deleteMany({ user }), this.invites.deleteMany({ creator: user })]);
+    return { msg: "All groups successfully left!" };
+  }
+
+  async removeGroup(group: ObjectId) {
+    await Promise.all([this.memberships.deleteMany({ group }), this.requests.deleteMany({ group }), this.invites.deleteMany({ group })]);
+    return { msg: "All members successfully removed from group!" };
+  }
+
+  async requestToJoin(user: ObjectId, group: ObjectId) {
+    await this.assertUserIsNotMember(user, group);
+    if (await this.requests.readOne({ user, group })) throw new JoinRequestAlreadyExistsError(user, group);
+    await this.requests.createOne({ user, group });
+    return { msg: "Request to join group sent!" };
+  }
+
+  /**
+   * Get a page of the pending requests to join `group`, oldest first.
+   */
+  async getRequests(group: ObjectId, page?: PageOptions) {
+    return await this.requests.readPage({ group }, page, undefined, 1);
+  }
+
+  async acceptRequest(user: ObjectId, group: ObjectId) {
+    await this.removeRequest(user, group);
+    return await this.join(user, group);
+  }
+
+  async removeRequest(user: ObjectId, group: ObjectId) {
+    const request = await this.requests.popOne({ user, group });
+    if (request === null) throw new JoinRequestNotFoundError(user, group);
+    return { msg: "Request to join group removed!" };
+  }
+
+  /**
+   * Create an invite code to `group`, optionally valid only until `expiresAt` or for `maxUses` joins.
+   */
+  async createInvite(group: ObjectId, creator: ObjectId, expiresAt?: Date, maxUses?: number) {
+    if (expiresAt && expiresAt <= new Date()) throw new BadValuesError("Invite must expire in the future!");
+    if (maxUses !== undefined && (!Number.isInteger(maxUses) || maxUses < 1)) throw new BadValuesError("Invite must allow at least one use!");
+    const code = randomBytes(INVITE_CODE_BYTES).toString("base64url");
+    const _id = await this.invites.createOne({ group, code, creator, uses: 0, maxUses, expiresAt });
+    const invite = await this.invites.readOne({ _id });
+    if (!invite) throw new Error("Failed to create invite");
+    return { msg: "Invite successfully created!", invite };
+  }
+
+  async getInvites(group: ObjectId) {
+    return await this.invites.readMany({ group }, { sort: { _id: -1 } });
+  }
+
+  async getInvite(group: ObjectId, code: string) {
+    const invite = await this.invites.readOne({ group, code });
+    if (!invite) throw new NotFoundError(`Invite ${code} does not exist!`);
+    return invite;
+  }
+
+  async revokeInvite(group: ObjectId, code: string) {
+    const deletion = await this.invites.deleteOne({ group, code });
+    if (deletion.deletedCount === 0) throw new NotFoundError(`Invite ${code} does not exist!`);
+    return { msg: "Invite successfully revoked!" };
+  }
+
+  /**
+   * Join `group` with its invite `code`, using up one of the invite's uses. Any pending request of `user` to join is dropped.
+   */
+  async joinWithInvite(user: ObjectId, group: ObjectId, code: string) {
+    const invite = await this.getInvite(group, code);
+    if (invite.expiresAt && invite.expiresAt <= new Date()) throw new NotAllowedError(`Invite ${code} has expired!`);
+    await this.assertUserIsNotMember(user, invite.group);
+    const use = await this.invites.collection.updateOne(invite.maxUses === undefined ? { _id: invite._id } : { _id: invite._id, uses: { $lt: invite.maxUses } }, {
+      $inc: { uses: 1 },
+      $set: { dateUpdated: new Date() },
+    });
+    if (use.modifiedCount === 0) throw new NotAllowedError(`Invite ${code} has been used up!`);
+    await this.requests.deleteOne({ user, group: invite.group });
+    return await this.join(user, invite.group);
+  }
+
   async getMembers(group: ObjectId) {
     return (await this.memberships.readMany({ group })).map((m) => m.user);
   }
 
   async getMemberships(group: ObjectId) {
-    return await this.memberships.readMany({ group });
+    return await this.memberships.readMany({ group }, { sort: { _id: 1 } });
+  }
+
+  /**
+   * Same as {@link getMemberships} but reads one page of the memberships, oldest first.
+   */
+  async getMembershipsPage(group: ObjectId, page?: PageOptions) {
+    return await this.memberships.readPage({ group }, page, undefined, 1);
   }
 
   async getUserMemberships(user: ObjectId) {
     return await this.memberships.readMany({ user });
   }
 
-  private async assertUserIsMember(user: ObjectId, group: ObjectId) {
-    if (!(await this.memberships.readOne({ user, group }))) throw new UserIsNotMemberError(user, group);
+  async isMember(user: ObjectId, group: ObjectId) {
+    return (await this.memberships.readOne({ user, group })) !== null;
+  }
+
+  async assertUserIsMember(user: ObjectId, group: ObjectId) {
+    if (!(await this.isMember(user, group))) throw new UserIsNotMemberError(user, group);
   }
 
   private async assertUserIsNotMember(user: ObjectId, group: ObjectId) {
@@ -70,3 +197,21 @@ export class UserIsNotMemberError extends NotAllowedError {
     super("{0} is not in group {1}!", user, group);
   }
 }
+
+export class JoinRequestAlreadyExistsError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly group: ObjectId,
+  ) {
+    super("{0} already requested to join group {1}!", user, group);
+  }
+}
+
+export class JoinRequestNotFoundError extends NotFoundError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly group: ObjectId,
+  ) {
+    super("{0} has not requested to join group {1}!", user, group);
+  }
+}
@@ -1,11 +1,15 @@
 import { ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
 import { NotAllowedError, NotFoundError } from "./errors";
 
+/**
+ * A link between `user` and `item`, which is of kind `itemType`, e.g. `posts`, so that links to one kind of item can be listed together.
+ */
 export interface LinkDoc extends BaseDoc {
   user: ObjectId;
   item: ObjectId;
+  itemType: string;
 }
 
 /**
@@ -18,16 +22,19 @@ export default class LinkingConcept {
     this.links = new DocCollection<LinkDoc>(collectionName);
   }
 
-  async link(user: ObjectId, item: ObjectId) {
+  async link(user: ObjectId, item: ObjectId, itemType: string) {
     await this.assertLinkDoesNotExist(user, item);
-    await this.links.createOne({ user, item });
+    await this.links.createOne({ user, item, itemType });
     const link = await this.links.readOne({ user, item });
     if (!link) throw new NotFoundError(`Item ${item} does not exist!`);
     return { msg: "Item successfully linked with user!", link };
   }
 
-  async getLinks() {
-    return await this.links.readMany({}, { sort: { _id: -1 } });
+  /**
+   * Get a page of links, newest first, optionally only those of `user` and only those to items of kind `itemType`.
+   */
+  async getLinks(page?: PageOptions, user?: ObjectId, itemType?: string) {
+    return await this.links.readPage({ ...(user ? { user } : {}), ...(itemType ? { itemType } : {}) }, page);
   }
 
   async getByUser(user: ObjectId) {
@@ -49,6 +56,21 @@ export default class LinkingConcept {
     return { msg: "Item successfully unlinked from user!" };
   }
 
+  async deleteByUser(user: ObjectId) {
+    await this.links.deleteMany({ user });
+    return { msg: "All items successfully unlinked from user!" };
+  }
+
+  async deleteByItem(item: ObjectId) {
+    await this.links.deleteMany({ item });
+    return { msg: "Item successfully unlinked from all users!" };
+  }
+
+  async deleteByItems(items: ObjectId[]) {
+    await this.links.deleteMany({ item: { $in: items } });
+    return { msg: "Items successfully unlinked from all users!" };
+  }
+
   async assertLinkBelongsToUser(_id: ObjectId, user: ObjectId) {
     if (!(await this.links.readOne({ _id, user }))) throw new UserDoesNotOwnLinkError(user, _id);
   }
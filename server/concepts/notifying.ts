@@ -0,0 +1,86 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { NotFoundError } from "./errors";
+
+export enum NotificationType {
+  FRIEND_REQUEST = "friend_request",
+  FRIEND_ACCEPTED = "friend_accepted",
+  COMMENT = "comment",
+  REPLY = "reply",
+  NEW_MEMBER = "new_member",
+  JOIN_REQUEST = "join_request",
+  JOIN_ACCEPTED = "join_accepted",
+  RANK_CHANGE = "rank_change",
+  COMPETITION_ENDING = "competition_ending",
+  COMPETITION_ENDED = "competition_ended",
+  DISPUTE_OPENED = "dispute_opened",
+  DISPUTE_RESOLVED = "dispute_resolved",
+}
+
+/**
+ * A notification for `recipient` that `actor`, if any, did something of `type` involving `item`,
+ * e.g. commented on a post or joined a competition. `details` holds anything else the type needs,
+ * e.g. the old and new rank of a rank change.
+ */
+export interface NotificationDoc extends BaseDoc {
+  recipient: ObjectId;
+  type: NotificationType;
+  actor?: ObjectId;
+  item?: ObjectId;
+  details?: Record<string, string | number | null>;
+  read: boolean;
+}
+
+/**
+ * concept: Notifying [User, Item]
+ */
+export default class NotifyingConcept {
+  public readonly notifications: DocCollection<NotificationDoc>;
+
+  constructor(collectionName: string) {
+    this.notifications = new DocCollection<NotificationDoc>(collectionName);
+  }
+
+  /**
+   * Notify each of `recipients` except `actor`, since nobody needs to be told about their own actions.
+   */
+  async notify(recipients: ObjectId[], type: NotificationType, actor?: ObjectId, item?: ObjectId, details?: NotificationDoc["details"]) {
+    const notified = recipients.filter((recipient) => !actor || !actor.equals(recipient));
+    if (notified.length > 0) {
+      await this.notifications.createMany(notified.map((recipient) => ({ recipient, type, actor, item, details, read: false })));
+    }
+    return { msg: `Notified ${notified.length} users!` };
+  }
+
+  /**
+   * Get a page of `recipient`'s notifications, newest first, optionally only the unread ones.
+   */
+  async getNotifications(recipient: ObjectId, unreadOnly = false, page?: PageOptions) {
+    return await this.notifications.readPage(unreadOnly ? { recipient, read: false } : { recipient }, page);
+  }
+
+  async countUnread(recipient: ObjectId) {
+    return await this.notifications.count({ recipient, read: false });
+  }
+
+  async markRead(_id: ObjectId, recipient: ObjectId) {
+    const notification = await this.notifications.readOne({ _id, recipient });
+    if (!notification) throw new NotFoundError(`Notification ${_id} does not exist!`);
+    await this.notifications.partialUpdateOne({ _id }, { read: true });
+    return { msg: "Notification marked as read!" };
+  }
+
+  async markAllRead(recipient: ObjectId) {
+    await this.notifications.collection.updateMany({ recipient, read: false }, { $set: { read: true, dateUpdated: new Date() } });
+    return { msg: "All notifications marked as read!" };
+  }
+
+  /**
+   * Delete the notifications for `user` and those about what `user` did.
+   */
+  async deleteByUser(user: ObjectId) {
+    await this.notifications.deleteMany({ $or: [{ recipient: user }, { actor: user }] });
+    return { msg: "Notifications deleted successfully!" };
+  }
+}
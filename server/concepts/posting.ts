@@ -1,16 +1,38 @@
-import { ObjectId } from "mongodb";
+import { Filter, ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
-import { NotAllowedError, NotFoundError } from "./errors";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+/**
+ * Who can see a post: everyone, the author's friends, or only the author.
+ * Posts without a visibility are public.
+ */
+export enum PostVisibility {
+  PUBLIC = "public",
+  FRIENDS = "friends",
+  PRIVATE = "private",
+}
 
 export interface PostOptions {
   backgroundColor?: string;
+  visibility?: PostVisibility;
+}
+
+/**
+ * Who is reading posts: the logged-in user, if any, the users who count them as a friend,
+ * and the authors whose posts they don't want to see.
+ */
+export interface PostViewer {
+  user?: ObjectId;
+  friends: ObjectId[];
+  ignored?: ObjectId[];
 }
 
 export interface PostDoc extends BaseDoc {
   author: ObjectId;
   content: string;
   options?: PostOptions;
+  hidden?: boolean;
 }
 
 interface FormattedPost {
@@ -36,35 +58,86 @@ export default class PostingConcept {
   }
 
   async create(author: ObjectId, content: string, options?: PostOptions) {
+    if (options) this.assertValidOptions(options);
     const _id = await this.posts.createOne({ author, content, options });
     const post = await this.posts.readOne({ _id });
     if (!post) throw new NotFoundError(`Post ${_id} does not exist!`);
     return { msg: "Post successfully created!", post };
   }
 
-  async getPosts() {
-    // Returns all posts! You might want to page for better client performance
-    return await this.posts.readMany({}, { sort: { _id: -1 } });
+  /**
+   * Get a page of posts `viewer` can see, newest first, optionally only those by `author`.
+   */
+  async getPosts(viewer: PostViewer, page?: PageOptions, author?: ObjectId) {
+    const filter = this.visibleTo(viewer);
+    return await this.posts.readPage(author ? { $and: [{ author }, filter] } : filter, page);
+  }
+
+  /**
+   * Get a page of the feed of `viewer`: the posts by the viewer and their friends that the viewer can see, newest first.
+   */
+  async getFeed(viewer: PostViewer & { user: ObjectId }, page?: PageOptions) {
+    return await this.posts.readPage({ $and: [{ author: { $in: [viewer.user, ...viewer.friends] } }, this.visibleTo(viewer)] }, page);
+  }
+
+  /**
+   * Get the ids of the posts among `ids` that `viewer` can see.
+   */
+  async getVisibleIds(ids: ObjectId[], viewer: PostViewer) {
+    const posts = await this.posts.readMany({ $and: [{ _id: { $in: ids } }, this.visibleTo(viewer)] }, { projection: { _id: 1 } });
+    return posts.map((post) => post._id);
   }
 
   async getByAuthor(author: ObjectId) {
     return await this.posts.readMany({ author });
   }
 
+  /**
+   * Get a page of all posts regardless of visibility, newest first, optionally only the hidden ones.
+   */
+  async getAll(page?: PageOptions, hiddenOnly = false) {
+    return await this.posts.readPage(hiddenOnly ? { hidden: true } : {}, page);
+  }
+
+  async getByIds(ids: ObjectId[]) {
+    return await this.posts.readMany({ _id: { $in: ids } });
+  }
+
   async update(_id: ObjectId, content?: string, options?: PostOptions) {
+    if (options) this.assertValidOptions(options);
     const update: Partial<PostDoc> = {};
     if (content) update.content = content;
-    if (options) update.options = options;
+    // Merge options so that updating one option does not reset the others, e.g. visibility
+    if (options) update.options = { ...(await this.posts.readOne({ _id }))?.options, ...options };
     await this.posts.partialUpdateOne({ _id }, update);
     return { msg: "Post successfully updated!" };
   }
 
+  /**
+   * Hide post `_id` from everyone, including its author, or show it again.
+   */
+  async setHidden(_id: ObjectId, hidden: boolean) {
+    await this.assertPostExists(_id);
+    await this.posts.partialUpdateOne({ _id }, { hidden });
+    return { msg: hidden ? "Post successfully hidden!" : "Post successfully shown!" };
+  }
+
   async delete(_id: ObjectId) {
     await this.posts.deleteOne({ _id });
     return { msg: "Post deleted successfully!" };
   }
 
-  redactAuthor(post: FormattedPost) {
+  async deleteByAuthor(author: ObjectId) {
+    await this.posts.deleteMany({ author });
+    return { msg: "Posts deleted successfully!" };
+  }
+
+  async reassignAuthor(author: ObjectId, newAuthor: ObjectId) {
+    await this.posts.collection.updateMany({ author }, { $set: { author: newAuthor, dateUpdated: new Date() } });
+    return { msg: "Posts successfully reassigned!" };
+  }
+
+  redactAuthor<Post extends FormattedPost>(post: Post) {
     // eslint-disable-next-line
     const { author, ...rest } = post;
     return rest;
@@ -79,6 +152,29 @@ export default class PostingConcept {
   async assertPostExists(_id: ObjectId) {
     if (!(await this.posts.readOne({ _id }))) throw new NotFoundError(`Post ${_id} does not exist!`);
   }
+
+  /**
+   * Assert that post `_id` exists and that `viewer` can see it. Posts the viewer cannot see are reported as missing.
+   */
+  async assertViewerCanSee(_id: ObjectId, viewer: PostViewer) {
+    if (!(await this.posts.readOne({ $and: [{ _id }, this.visibleTo(viewer)] }))) throw new NotFoundError(`Post ${_id} does not exist!`);
+  }
+
+  /**
+   * Filter for the posts that `viewer` can see.
+   */
+  visibleTo(viewer: PostViewer): Filter<PostDoc> {
+    const visible: Filter<PostDoc>[] = [{ "options.visibility": { $nin: [PostVisibility.FRIENDS, PostVisibility.PRIVATE] } }];
+    if (viewer.user) visible.push({ author: viewer.user });
+    if (viewer.friends.length > 0) visible.push({ author: { $in: viewer.friends }, "options.visibility": PostVisibility.FRIENDS });
+    return { hidden: { $ne: true }, author: { $nin: viewer.ignored ?? [] }, $or: visible };
+  }
+
+  private assertValidOptions(options: PostOptions) {
+    if (options.visibility !== undefined && !Object.values(PostVisibility).includes(options.visibility)) {
+      throw new BadValuesError(`Post visibility must be one of: ${Object.values(PostVisibility).join(", ")}!`);
+    }
+  }
 }
 
 export class PostAuthorNotMatchError extends NotAllowedError {
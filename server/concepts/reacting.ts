@@ -0,0 +1,110 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+/**
+ * The reactions a user can leave on an item: a plain like or one of a small set of emoji.
+ */
+export const REACTIONS = ["like", "❤️", "😂", "😮", "😢", "🎉", "🔥"];
+
+export interface ReactionDoc extends BaseDoc {
+  user: ObjectId;
+  item: ObjectId;
+  reaction: string;
+}
+
+/**
+ * The reactions on an item: how many users left each reaction, and which of them the viewer left.
+ */
+export interface ReactionSummary {
+  counts: Record<string, number>;
+  mine: string[];
+}
+
+/**
+ * concept: Reacting [User, Item]
+ */
+export default class ReactingConcept {
+  public readonly reactions: DocCollection<ReactionDoc>;
+
+  constructor(collectionName: string) {
+    this.reactions = new DocCollection<ReactionDoc>(collectionName);
+  }
+
+  async react(user: ObjectId, item: ObjectId, reaction: string) {
+    this.assertValidReaction(reaction);
+    await this.assertReactionDoesNotExist(user, item, reaction);
+    await this.reactions.createOne({ user, item, reaction });
+    return { msg: `Successfully reacted with ${reaction}!` };
+  }
+
+  async unreact(user: ObjectId, item: ObjectId, reaction: string) {
+    const deletion = await this.reactions.deleteOne({ user, item, reaction });
+    if (deletion.deletedCount === 0) throw new ReactionNotFoundError(user, item, reaction);
+    return { msg: `Successfully removed ${reaction} reaction!` };
+  }
+
+  /**
+   * Summarize the reactions on each of `items`, in the same order, flagging the reactions left by `viewer`.
+   */
+  async getSummaries(items: ObjectId[], viewer?: ObjectId): Promise<ReactionSummary[]> {
+    const groups = await this.reactions.collection
+      .aggregate<{ _id: { item: ObjectId; reaction: string }; count: number; mine: boolean }>([
+        { $match: { item: { $in: items } } },
+        { $group: { _id: { item: "$item", reaction: "$reaction" }, count: { $sum: 1 }, mine: { $max: { $eq: ["$user", viewer ?? null] } } } },
+      ])
+      .toArray();
+    const summaries = new Map<string, ReactionSummary>();
+    for (const { _id, count, mine } of groups) {
+      const key = _id.item.toString();
+      const summary = summaries.get(key) ?? { counts: {}, mine: [] };
+      summary.counts[_id.reaction] = count;
+      if (mine) summary.mine.push(_id.reaction);
+      summaries.set(key, summary);
+    }
+    return items.map((item) => summaries.get(item.toString()) ?? { counts: {}, mine: [] });
+  }
+
+  async getByUser(user: ObjectId) {
+    return await this.reactions.readMany({ user });
+  }
+
+  async deleteByUser(user: ObjectId) {
+    await this.reactions.deleteMany({ user });
+    return { msg: "Reactions deleted successfully!" };
+  }
+
+  async deleteByItems(items: ObjectId[]) {
+    await this.reactions.deleteMany({ item: { $in: items } });
+    return { msg: "Reactions deleted successfully!" };
+  }
+
+  private assertValidReaction(reaction: string) {
+    if (!REACTIONS.includes(reaction)) throw new BadValuesError("Reaction must be one of {0}!", REACTIONS.join(", "));
+  }
+
+  private async assertReactionDoesNotExist(user: ObjectId, item: ObjectId, reaction: string) {
+    if (await this.reactions.readOne({ user, item, reaction })) throw new ReactionAlreadyExistsError(user, item, reaction);
+  }
+}
+
+export class ReactionAlreadyExistsError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly item: ObjectId,
+    public readonly reaction: string,
+  ) {
+    super("{0} already reacted to item {1} with {2}!", user, item, reaction);
+  }
+}
+
+export class ReactionNotFoundError extends NotFoundError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly item: ObjectId,
+    public readonly reaction: string,
+  ) {
+    super("{0} has not reacted to item {1} with {2}!", user, item, reaction);
+  }
+}
@@ -0,0 +1,150 @@
+import { ObjectId } from "mongodb";
+
+import { DEFAULT_TIMEZONE, shiftDate } from "../framework/days";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+export enum Recurrence {
+  DAILY = "daily",
+  WEEKLY = "weekly",
+  MONTHLY = "monthly",
+}
+
+/**
+ * A series of items that recur back to back, each starting when the previous one ends.
+ * `instances` is the history of the series, oldest first, and `latestEndDate` is when the latest one ends.
+ */
+export interface SeriesDoc extends BaseDoc {
+  name: string;
+  owner: ObjectId;
+  recurrence: Recurrence;
+  instances: ObjectId[];
+  latestEndDate: Date;
+  stoppedAt?: Date;
+}
+
+/**
+ * concept: Recurring [User, Item]
+ */
+export default class RecurringConcept {
+  public readonly series: DocCollection<SeriesDoc>;
+
+  constructor(collectionName: string) {
+    this.series = new DocCollection<SeriesDoc>(collectionName);
+  }
+
+  /**
+   * Start a series named `name` whose first instance is `first`, ending at `firstEndDate`.
+   */
+  async create(owner: ObjectId, name: string, recurrence: Recurrence, first: ObjectId, firstEndDate: Date) {
+    await this.assertNameUnique(name);
+    const _id = await this.series.createOne({ name, owner, recurrence, instances: [first], latestEndDate: firstEndDate });
+    const series = await this.series.readOne({ _id });
+    if (!series) throw new Error("Failed to create series");
+    return { msg: "Series successfully created!", series };
+  }
+
+  /**
+   * Get a page of the series that are still recurring, newest first.
+   */
+  async getSeries(page?: PageOptions) {
+    return await this.series.readPage({ stoppedAt: { $exists: false } }, page);
+  }
+
+  async getByName(name: string) {
+    const series = await this.series.readOne({ name });
+    if (!series) throw new NotFoundError(`Series ${name} does not exist!`);
+    return series;
+  }
+
+  /**
+   * Get the series that are still recurring but whose latest instance ended by `now`.
+   */
+  async getDue(now = new Date()) {
+    return await this.series.readMany({ stoppedAt: { $exists: false }, latestEndDate: { $lte: now } });
+  }
+
+  /**
+   * Move when the latest instance of series `_id` ends, e.g. because the instance was extended.
+   */
+  async reschedule(_id: ObjectId, latestEndDate: Date) {
+    await this.series.partialUpdateOne({ _id }, { latestEndDate });
+    return { msg: "Series successfully rescheduled!" };
+  }
+
+  /**
+   * Get the window of the next instance of `series`: it starts when the latest instance ends,
+   * skipping ahead whole periods of `timezone` so that it hasn't already ended by `now`.
+   */
+  getNextWindow(series: SeriesDoc, now = new Date(), timezone = DEFAULT_TIMEZONE): [Date, Date] {
+    let start = series.latestEndDate;
+    let end = this.advance(series.recurrence, start, timezone);
+    while (end <= now) {
+      start = end;
+      end = this.advance(series.recurrence, start, timezone);
+    }
+    return [start, end];
+  }
+
+  /**
+   * Get the date one period of `recurrence` after `date`, keeping its local time of day in `timezone`.
+   */
+  advance(recurrence: Recurrence, date: Date, timezone = DEFAULT_TIMEZONE) {
+    switch (recurrence) {
+      case Recurrence.DAILY:
+        return shiftDate(date, 0, 1, timezone);
+      case Recurrence.WEEKLY:
+        return shiftDate(date, 0, 7, timezone);
+      case Recurrence.MONTHLY:
+        return shiftDate(date, 1, 0, timezone);
+    }
+  }
+
+  /**
+   * Get the name of instance number `number` of the series named `name`, counting from 1.
+   */
+  getInstanceName(name: string, number: number) {
+    return `${name} #${number}`;
+  }
+
+  async addInstance(_id: ObjectId, instance: ObjectId, endDate: Date) {
+    await this.series.collection.updateOne({ _id, instances: { $ne: instance } }, { $push: { instances: instance }, $set: { latestEndDate: endDate, dateUpdated: new Date() } });
+    return { msg: "Series instance successfully added!" };
+  }
+
+  /**
+   * Stop `series` from recurring. Its existing instances are kept.
+   */
+  async stop(_id: ObjectId) {
+    const series = await this.series.readOne({ _id });
+    if (!series) throw new NotFoundError(`Series ${_id} does not exist!`);
+    if (series.stoppedAt) throw new NotAllowedError(`Series ${series.name} has already been stopped!`);
+    await this.series.partialUpdateOne({ _id }, { stoppedAt: new Date() });
+    return { msg: "Series successfully stopped!" };
+  }
+
+  /**
+   * Stop every series of `owner` that is still recurring.
+   */
+  async stopByOwner(owner: ObjectId) {
+    await this.series.collection.updateMany({ owner, stoppedAt: { $exists: false } }, { $set: { stoppedAt: new Date() } });
+    return { msg: "Series successfully stopped!" };
+  }
+
+  parseRecurrence(recurrence: string) {
+    if (!(Object.values(Recurrence) as string[]).includes(recurrence)) {
+      throw new BadValuesError(`Recurrence must be one of: ${Object.values(Recurrence).join(", ")}!`);
+    }
+    return recurrence as Recurrence;
+  }
+
+  async assertUserIsOwner(_id: ObjectId, user: ObjectId) {
+    const series = await this.series.readOne({ _id });
+    if (!series) throw new NotFoundError(`Series ${_id} does not exist!`);
+    if (!user.equals(series.owner)) throw new NotAllowedError(`User ${user} is not the owner of series ${series.name}!`);
+  }
+
+  async assertNameUnique(name: string) {
+    if (await this.series.readOne({ name })) throw new NotAllowedError(`Series with name ${name} already exists!`);
+  }
+}
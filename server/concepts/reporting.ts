@@ -0,0 +1,167 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
+
+/**
+ * The kinds of items that can be reported, named like the routes that list them.
+ */
+export enum ReportedItemType {
+  POSTS = "posts",
+  COMMENTS = "comments",
+  DATA = "data",
+  COMPETITIONS = "competitions",
+}
+
+export enum ReportReason {
+  SPAM = "spam",
+  ABUSE = "abuse",
+  OTHER = "other",
+}
+
+/**
+ * How a case was closed: dismissed with no action, or the item was hidden or deleted.
+ */
+export enum CaseResolution {
+  DISMISSED = "dismissed",
+  HIDDEN = "hidden",
+  DELETED = "deleted",
+}
+
+export interface ReportDoc extends BaseDoc {
+  reporter: ObjectId;
+  item: ObjectId;
+  reason: ReportReason;
+  details?: string;
+}
+
+/**
+ * All the reports on one item, open until a moderator resolves it.
+ * Reports made after a case was dismissed reopen it.
+ */
+export interface ReportCaseDoc extends BaseDoc {
+  item: ObjectId;
+  itemType: ReportedItemType;
+  reportCount: number;
+  resolution?: CaseResolution;
+  resolvedBy?: ObjectId;
+}
+
+/**
+ * concept: Reporting [User, Item]
+ */
+export default class ReportingConcept {
+  public readonly reports: DocCollection<ReportDoc>;
+  public readonly cases: DocCollection<ReportCaseDoc>;
+
+  constructor(collectionName: string) {
+    this.reports = new DocCollection<ReportDoc>(collectionName);
+    this.cases = new DocCollection<ReportCaseDoc>(collectionName + "_cases");
+  }
+
+  async report(reporter: ObjectId, item: ObjectId, itemType: string, reason: string, details?: string) {
+    const type = this.parseItemType(itemType);
+    this.assertValidReason(reason);
+    await this.assertNotReported(reporter, item);
+    await this.reports.createOne({ reporter, item, reason, details });
+
+    const existing = await this.cases.readOne({ item });
+    if (!existing) {
+      await this.cases.createOne({ item, itemType: type, reportCount: 1 });
+    } else {
+      await this.cases.collection.updateOne({ _id: existing._id }, { $inc: { reportCount: 1 }, $set: { dateUpdated: new Date() } });
+      if (existing.resolution === CaseResolution.DISMISSED) {
+        await this.cases.collection.updateOne({ _id: existing._id }, { $unset: { resolution: "", resolvedBy: "" } });
+      }
+    }
+    return { msg: "Item successfully reported!" };
+  }
+
+  /**
+   * Get a page of the open cases, most reported first.
+   */
+  async getQueue(page?: PageOptions) {
+    return await this.cases.readPage({ resolution: { $exists: false } }, page, "reportCount");
+  }
+
+  async getCase(item: ObjectId) {
+    const reportCase = await this.cases.readOne({ item });
+    if (!reportCase) throw new NotFoundError(`Item ${item} has not been reported!`);
+    return reportCase;
+  }
+
+  /**
+   * Same as {@link getCase} but asserts that the case has not been resolved yet.
+   */
+  async getOpenCase(item: ObjectId) {
+    const reportCase = await this.getCase(item);
+    if (reportCase.resolution) throw new NotAllowedError("Case on item {0} was already {1}!", item, reportCase.resolution);
+    return reportCase;
+  }
+
+  /**
+   * Get the reports on `item`, oldest first.
+   */
+  async getReports(item: ObjectId) {
+    return await this.reports.readMany({ item }, { sort: { dateCreated: 1 } });
+  }
+
+  async resolve(item: ObjectId, moderator: ObjectId, resolution: CaseResolution) {
+    const reportCase = await this.getOpenCase(item);
+    await this.cases.partialUpdateOne({ _id: reportCase._id }, { resolution, resolvedBy: moderator });
+    return { msg: `Case successfully ${resolution}!` };
+  }
+
+  parseResolution(resolution: string) {
+    if (!(Object.values(CaseResolution) as string[]).includes(resolution)) {
+      throw new BadValuesError(`Resolution must be one of: ${Object.values(CaseResolution).join(", ")}!`);
+    }
+    return resolution as CaseResolution;
+  }
+
+  /**
+   * Delete the reports of `reporter`, taking them off the counts of their cases.
+   * Open cases left without any reports are deleted.
+   */
+  async deleteByReporter(reporter: ObjectId) {
+    const items = (await this.reports.readMany({ reporter })).map((report) => report.item);
+    await this.reports.deleteMany({ reporter });
+    await this.cases.collection.updateMany({ item: { $in: items } }, { $inc: { reportCount: -1 }, $set: { dateUpdated: new Date() } });
+    await this.cases.deleteMany({ item: { $in: items }, reportCount: { $lte: 0 }, resolution: { $exists: false } });
+    return { msg: "Reports deleted successfully!" };
+  }
+
+  /**
+   * Delete the reports and cases on `items`, which no longer exist.
+   */
+  async deleteByItems(items: ObjectId[]) {
+    await Promise.all([this.reports.deleteMany({ item: { $in: items } }), this.cases.deleteMany({ item: { $in: items } })]);
+    return { msg: "Reports deleted successfully!" };
+  }
+
+  private parseItemType(itemType: string) {
+    if (!(Object.values(ReportedItemType) as string[]).includes(itemType)) {
+      throw new BadValuesError(`Reported item type must be one of: ${Object.values(ReportedItemType).join(", ")}!`);
+    }
+    return itemType as ReportedItemType;
+  }
+
+  private assertValidReason(reason: string): asserts reason is ReportReason {
+    if (!(Object.values(ReportReason) as string[]).includes(reason)) {
+      throw new BadValuesError(`Report reason must be one of: ${Object.values(ReportReason).join(", ")}!`);
+    }
+  }
+
+  private async assertNotReported(reporter: ObjectId, item: ObjectId) {
+    if (await this.reports.readOne({ reporter, item })) throw new ReportAlreadyExistsError(reporter, item);
+  }
+}
+
+export class ReportAlreadyExistsError extends NotAllowedError {
+  constructor(
+    public readonly reporter: ObjectId,
+    public readonly item: ObjectId,
+  ) {
+    super("{0} already reported item {1}!", reporter, item);
+  }
+}
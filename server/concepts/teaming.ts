@@ -0,0 +1,115 @@
+import { ObjectId } from "mongodb";
+
+import DocCollection, { BaseDoc } from "../framework/doc";
+import { NotAllowedError, NotFoundError } from "./errors";
+
+export interface TeamDoc extends BaseDoc {
+  group: ObjectId;
+  name: string;
+  members: ObjectId[];
+}
+
+/**
+ * concept: Teaming [User, Group]
+ */
+export default class TeamingConcept {
+  public readonly teams: DocCollection<TeamDoc>;
+
+  constructor(collectionName: string) {
+    this.teams = new DocCollection<TeamDoc>(collectionName);
+  }
+
+  async create(group: ObjectId, name: string) {
+    if (await this.teams.readOne({ group, name })) throw new NotAllowedError(`Team with name ${name} already exists!`);
+    const _id = await this.teams.createOne({ group, name, members: [] });
+    const team = await this.teams.readOne({ _id });
+    if (!team) throw new Error("Failed to create team");
+    return { msg: "Team successfully created!", team };
+  }
+
+  async delete(_id: ObjectId) {
+    await this.teams.deleteOne({ _id });
+    return { msg: "Team successfully deleted!" };
+  }
+
+  /**
+   * Get the teams of `group`, oldest first.
+   */
+  async getTeams(group: ObjectId) {
+    return await this.teams.readMany({ group }, { sort: { _id: 1 } });
+  }
+
+  async getByName(group: ObjectId, name: string) {
+    const team = await this.teams.readOne({ group, name });
+    if (!team) throw new NotFoundError(`Team ${name} does not exist!`);
+    return team;
+  }
+
+  /**
+   * Get the team of `group` that `user` is on, if any.
+   */
+  async getUserTeam(group: ObjectId, user: ObjectId) {
+    return await this.teams.readOne({ group, members: user });
+  }
+
+  /**
+   * Put `user` on `team`, unless it already has `maxSize` members. Users can be on only one team per group.
+   */
+  async join(user: ObjectId, team: ObjectId, maxSize?: number) {
+    const teamDoc = await this.teams.readOne({ _id: team });
+    if (!teamDoc) throw new NotFoundError(`Team ${team} does not exist!`);
+    if (await this.getUserTeam(teamDoc.group, user)) throw new AlreadyOnTeamError(user, teamDoc.group);
+    // The team has room as long as the member at index `maxSize - 1` does not exist
+    const filter = maxSize === undefined ? { _id: team } : { _id: team, [`members.${maxSize - 1}`]: { $exists: false } };
+    const update = await this.teams.collection.updateOne(filter, { $push: { members: user }, $set: { dateUpdated: new Date() } });
+    if (update.modifiedCount === 0) throw new NotAllowedError(`Team ${teamDoc.name} is full!`);
+    return { msg: "Team successfully joined!" };
+  }
+
+  /**
+   * Take `user` off their team in `group`.
+   */
+  async leave(user: ObjectId, group: ObjectId) {
+    const update = await this.teams.collection.updateOne({ group, members: user }, { $pull: { members: user }, $set: { dateUpdated: new Date() } });
+    if (update.modifiedCount === 0) throw new NotFoundError(`User ${user} is not on a team!`);
+    return { msg: "Team successfully left!" };
+  }
+
+  /**
+   * Same as {@link leave} but does nothing if `user` is not on a team in `group`.
+   */
+  async leaveIfOnTeam(user: ObjectId, group: ObjectId) {
+    await this.teams.collection.updateOne({ group, members: user }, { $pull: { members: user } });
+  }
+
+  /**
+   * Give group `to` a copy of every team of group `from`, with the same names and members.
+   */
+  async copyTeams(from: ObjectId, to: ObjectId) {
+    const teams = await this.getTeams(from);
+    if (teams.length > 0) await this.teams.createMany(teams.map((team) => ({ group: to, name: team.name, members: team.members })));
+    return { msg: "Teams successfully copied!" };
+  }
+
+  async removeGroup(group: ObjectId) {
+    await this.teams.deleteMany({ group });
+    return { msg: "Teams successfully removed!" };
+  }
+
+  /**
+   * Take `user` off every team they are on.
+   */
+  async removeUser(user: ObjectId) {
+    await this.teams.collection.updateMany({ members: user }, { $pull: { members: user } });
+    return { msg: "All teams successfully left!" };
+  }
+}
+
+export class AlreadyOnTeamError extends NotAllowedError {
+  constructor(
+    public readonly user: ObjectId,
+    public readonly group: ObjectId,
+  ) {
+    super("{0} is already on a team in group {1}!", user, group);
+  }
+}
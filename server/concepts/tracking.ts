@@ -1,19 +1,133 @@
 import { ObjectId } from "mongodb";
 
-import DocCollection, { BaseDoc } from "../framework/doc";
-import { NotAllowedError, NotFoundError } from "./errors";
+import { addDays, DEFAULT_TIMEZONE, endOfDay, startOfDay, toDay } from "../framework/days";
+import DocCollection, { BaseDoc, PageOptions } from "../framework/doc";
+import EventBus from "../framework/events";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./errors";
 
 export enum SortOptions {
   SCORE = "score",
   DATE = "date",
 }
 
+export enum MetricDirection {
+  HIGHER = "higher",
+  LOWER = "lower",
+}
+
+/**
+ * The kind of value a metric measures. Durations are stored in seconds.
+ */
+export enum MetricValueType {
+  INTEGER = "integer",
+  DECIMAL = "decimal",
+  DURATION = "duration",
+}
+
+/**
+ * What to do when a user logs a second entry of a metric for the same day.
+ */
+export enum DuplicatePolicy {
+  ALLOW = "allow",
+  REJECT = "reject",
+  REPLACE = "replace",
+}
+
+/**
+ * The rules that entries of a metric must follow. Scores must lie within `min` and `max`, and dates
+ * must be at most `maxDaysBack` days in the past and, unless `allowFuture` is set, not in the future.
+ */
+export interface MetricRules {
+  min?: number;
+  max?: number;
+  maxDaysBack?: number;
+  allowFuture?: boolean;
+  perDay: DuplicatePolicy;
+}
+
+/**
+ * What data measures, e.g. a Wordle score or a 5K time. Metrics without an owner are system metrics,
+ * which everyone can use; users can also define their own.
+ */
+export interface MetricDoc extends BaseDoc {
+  name: string;
+  unit?: string;
+  direction: MetricDirection;
+  valueType: MetricValueType;
+  owner?: ObjectId;
+  rules?: MetricRules;
+}
+
+const DEFAULT_RULES: MetricRules = { min: 0, perDay: DuplicatePolicy.ALLOW };
+
+/**
+ * The metric of data logged without one, which includes all data logged before there were metrics.
+ */
+export const DEFAULT_METRIC = new ObjectId("000000000000000000000001");
+
+const SYSTEM_METRICS: MetricDoc[] = [
+  { _id: DEFAULT_METRIC, name: "score", unit: "points", direction: MetricDirection.HIGHER, valueType: MetricValueType.INTEGER },
+  { _id: new ObjectId("000000000000000000000002"), name: "time", unit: "seconds", direction: MetricDirection.LOWER, valueType: MetricValueType.DURATION },
+  { _id: new ObjectId("000000000000000000000003"), name: "distance", unit: "km", direction: MetricDirection.HIGHER, valueType: MetricValueType.DECIMAL },
+].map((metric) => ({ ...metric, rules: DEFAULT_RULES, dateCreated: new Date(0), dateUpdated: new Date(0) }));
+
+/**
+ * `day` is the calendar day of `date` in the timezone of the user when it was logged, so that the entry stays
+ * on that day if the user moves. Data logged before there were timezones has none and falls on its UTC day.
+ */
 export interface DataDoc extends BaseDoc {
   user: ObjectId;
   date: Date;
+  day?: string;
   score: number;
+  metric?: ObjectId;
+  hidden?: boolean;
+}
+
+/**
+ * Aggregates of a set of scores. Scores are higher-is-better here, so `best` is the highest score
+ * and `worst` the lowest. All but `count` are `null` if there are no scores.
+ */
+export interface ScoreSummary {
+  count: number;
+  total: number;
+  mean: number | null;
+  best: number | null;
+  worst: number | null;
 }
 
+export interface Rollup extends ScoreSummary {
+  // The first day of the week or month the rollup covers
+  start: Date;
+}
+
+export interface DataStats extends ScoreSummary {
+  median: number | null;
+  stdDev: number | null;
+  // Streaks count consecutive days with data; the current streak is still going if it reached today or yesterday
+  currentStreak: number;
+  longestStreak: number;
+  weekly: Rollup[];
+  monthly: Rollup[];
+}
+
+/**
+ * A span of data: either the calendar days from `days[0]` through `days[1]`, or the moments from `dates[0]` through `dates[1]`.
+ */
+export type DataPeriod = { days: [string, string] } | { dates: [Date, Date] };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The calendar day of data as a date at midnight UTC, falling back to the UTC day of data without one
+const DAY_AS_DATE = { $dateFromString: { dateString: { $ifNull: ["$day", { $dateToString: { date: "$date", format: "%Y-%m-%d" } }] } } };
+
+// An entry is an outlier if it is more than `OUTLIER_DEVIATIONS` standard deviations from the mean of
+// the user's other entries, once there are at least `OUTLIER_MIN_HISTORY` of them
+const OUTLIER_DEVIATIONS = 3;
+const OUTLIER_MIN_HISTORY = 5;
+
+const SUMMARY_FIELDS = { count: { $sum: 1 }, total: { $sum: "$score" }, mean: { $avg: "$score" }, best: { $max: "$score" }, worst: { $min: "$score" } };
+
 interface FormattedData {
   user: string;
   date: Date;
@@ -28,32 +142,57 @@ interface FormattedData {
  */
 export default class TrackingConcept {
   public readonly data: DocCollection<DataDoc>;
+  public readonly metrics: DocCollection<MetricDoc>;
+  public readonly events = new EventBus<{ logged: DataDoc; updated: DataDoc; deleted: DataDoc }>();
 
   constructor(collectionName: string) {
     this.data = new DocCollection<DataDoc>(collectionName);
+    this.metrics = new DocCollection<MetricDoc>(collectionName + "_metrics");
   }
 
-  async log(user: ObjectId, date: Date, score: number) {
-    const _id = await this.data.createOne({ user, date, score });
+  /**
+   * Log `score` of `metric` for `user` on `date`, which falls on a calendar day of `timezone`, following the rules
+   * of the metric. If the metric replaces entries of the same day, the user's existing entry for that day is updated instead.
+   */
+  async log(user: ObjectId, date: Date, score: number, metric: ObjectId = DEFAULT_METRIC, timezone = DEFAULT_TIMEZONE) {
+    const metricDoc = await this.getMetric(metric);
+    this.assertFollowsRules(metricDoc, date, score);
+    const day = toDay(date, timezone);
+    const rules = metricDoc.rules ?? DEFAULT_RULES;
+    if (rules.perDay !== DuplicatePolicy.ALLOW) {
+      const existing = await this.getSameDayEntry(user, metric, day);
+      if (existing && rules.perDay === DuplicatePolicy.REJECT) throw new DuplicateEntryError(metricDoc.name, day);
+      if (existing) {
+        await this.data.partialUpdateOne({ _id: existing._id }, { date, day, score });
+        const data = await this.data.readOne({ _id: existing._id });
+        if (!data) throw new NotFoundError(`Data ${existing._id} does not exist!`);
+        this.events.publish("updated", data);
+        return { msg: "Data successfully replaced the entry of the same day!", data };
+      }
+    }
+    const _id = await this.data.createOne({ user, date, day, score, metric });
     const data = await this.data.readOne({ _id });
     if (!data) throw new NotFoundError(`Data for user ${user} and date ${date} does not exist!`);
+    this.events.publish("logged", data);
     return { msg: "Data successfully logged!", data: data };
   }
 
   /**
    * Get data based on the following filters:
    *   - `username`: A user's username
-   *   - `date` or `dateRange`: A date or a date range
+   *   - `period`: A span of calendar days or dates
+   *   - `metric`: What the data measures
    *
    * and the following sort options:
-   *   - `sort`: A field to sort by (score or date)
+   *   - `sort`: A field to sort by (score or date), otherwise newest first
+   *
+   * Returns one page of the matching data, leaving out hidden data and the data of `ignoredUsers`.
    */
-  async getData(user?: ObjectId, date?: Date, dateRange?: [Date, Date], sort?: SortOptions) {
-    const query: Record<string, unknown> = {};
-    if (user) query.user = user;
-    if (date) query.date = date;
-    if (dateRange) query.date = { $gte: dateRange[0], $lte: dateRange[1] };
-    return await this.data.readMany(query, { sort: sort === SortOptions.SCORE ? { score: -1 } : sort === SortOptions.DATE ? { date: -1 } : {} });
+  async getData(user?: ObjectId, period?: DataPeriod, sort?: SortOptions, page?: PageOptions, ignoredUsers: ObjectId[] = [], metric?: ObjectId) {
+    const query: Record<string, unknown> = { hidden: { $ne: true }, user: { $nin: ignoredUsers }, ...this.periodFilter(period) };
+    if (user) query.user = { $eq: user, $nin: ignoredUsers };
+    if (metric) query.metric = this.metricFilter(metric);
+    return await this.data.readPage(query, page, sort);
   }
 
   async getByIds(ids: ObjectId[]) {
@@ -64,30 +203,371 @@ export default class TrackingConcept {
     return this.data.readMany({ user });
   }
 
-  redactUser(data: FormattedData) {
+  /**
+   * Get a page of all data, newest first, optionally only the hidden data.
+   */
+  async getAll(page?: PageOptions, hiddenOnly = false) {
+    return await this.data.readPage(hiddenOnly ? { hidden: true } : {}, page);
+  }
+
+  /**
+   * Get the data of `metric` of any of `users` dated within `dateRange`, oldest first, leaving out hidden data.
+   */
+  async getByUsersInRange(users: ObjectId[], dateRange: [Date, Date], metric: ObjectId = DEFAULT_METRIC) {
+    return this.data.readMany(this.usersInRangeQuery(users, dateRange, metric), { sort: { date: 1 } });
+  }
+
+  /**
+   * Same as {@link getByUsersInRange} but reads one page of the data.
+   */
+  async getPageByUsersInRange(users: ObjectId[], dateRange: [Date, Date], page?: PageOptions, metric: ObjectId = DEFAULT_METRIC) {
+    return this.data.readPage(this.usersInRangeQuery(users, dateRange, metric), page, "date", 1);
+  }
+
+  /**
+   * Define a metric for `owner`. Its name must not be taken by a system metric or another metric of `owner`.
+   */
+  async createMetric(owner: ObjectId, name: string, direction: string, valueType: string, unit?: string, rules: MetricRules = DEFAULT_RULES) {
+    if (!(Object.values(MetricDirection) as string[]).includes(direction)) {
+      throw new BadValuesError(`Metric direction must be one of: ${Object.values(MetricDirection).join(", ")}!`);
+    }
+    if (!(Object.values(MetricValueType) as string[]).includes(valueType)) {
+      throw new BadValuesError(`Metric value type must be one of: ${Object.values(MetricValueType).join(", ")}!`);
+    }
+    if (SYSTEM_METRICS.some((metric) => metric.name === name) || (await this.metrics.readOne({ owner, name }))) {
+      throw new NotAllowedError(`Metric with name ${name} already exists!`);
+    }
+    const _id = await this.metrics.createOne({ owner, name, unit, direction: direction as MetricDirection, valueType: valueType as MetricValueType, rules });
+    const metric = await this.metrics.readOne({ _id });
+    if (!metric) throw new Error("Failed to create metric");
+    return { msg: "Metric successfully created!", metric };
+  }
+
+  /**
+   * Get the system metrics, followed by the metrics of `owner` if given.
+   */
+  async getMetrics(owner?: ObjectId) {
+    return [...SYSTEM_METRICS, ...(owner ? await this.getOwnMetrics(owner) : [])];
+  }
+
+  async getOwnMetrics(owner: ObjectId) {
+    return await this.metrics.readMany({ owner }, { sort: { _id: 1 } });
+  }
+
+  async getMetric(_id: ObjectId = DEFAULT_METRIC) {
+    const metric = SYSTEM_METRICS.find((metric) => metric._id.equals(_id)) ?? (await this.metrics.readOne({ _id }));
+    if (!metric) throw new NotFoundError(`Metric ${_id} does not exist!`);
+    return metric;
+  }
+
+  /**
+   * Find the metric that `metric` refers to by id or by name among the system metrics and those of `user`.
+   * Other users' metrics can't be used, even by id.
+   */
+  async resolveMetric(metric: string, user?: ObjectId) {
+    const found = /^[0-9a-f]{24}$/i.test(metric) ? await this.getMetric(new ObjectId(metric)) : (await this.getMetrics(user)).find((m) => m.name === metric);
+    if (!found || (found.owner && !found.owner.equals(user))) throw new NotFoundError(`Metric ${metric} does not exist!`);
+    return found;
+  }
+
+  /**
+   * Replace the rules of metric `_id` of `owner`. Existing data is left as is.
+   */
+  async updateRules(_id: ObjectId, owner: ObjectId, rules: MetricRules) {
+    const metric = await this.getMetric(_id);
+    if (!metric.owner || !metric.owner.equals(owner)) throw new NotAllowedError(`User ${owner} is not the owner of metric ${metric.name}!`);
+    await this.metrics.partialUpdateOne({ _id }, { rules });
+    return { msg: "Metric rules successfully updated!" };
+  }
+
+  /**
+   * Parse the rules of a metric, where missing bounds are unbounded and entries of the same day are allowed by default.
+   */
+  parseRules(min?: string, max?: string, maxDaysBack?: string, allowFuture?: string, perDay?: string): MetricRules {
+    const parseNumber = (value: string | undefined, field: string) => {
+      if (value === undefined || value === "") return undefined;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) throw new BadValuesError(`${field} must be a number!`);
+      return parsed;
+    };
+    const rules: MetricRules = {
+      min: parseNumber(min, "Minimum"),
+      max: parseNumber(max, "Maximum"),
+      maxDaysBack: parseNumber(maxDaysBack, "Maximum days back"),
+      allowFuture: allowFuture === "true",
+      perDay: (perDay || DuplicatePolicy.ALLOW) as DuplicatePolicy,
+    };
+    if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) throw new BadValuesError("Minimum must not be above the maximum!");
+    if (rules.maxDaysBack !== undefined && rules.maxDaysBack < 0) throw new BadValuesError("Maximum days back must not be negative!");
+    if (!(Object.values(DuplicatePolicy) as string[]).includes(rules.perDay)) {
+      throw new BadValuesError(`Duplicate policy must be one of: ${Object.values(DuplicatePolicy).join(", ")}!`);
+    }
+    return rules;
+  }
+
+  /**
+   * Delete metric `_id` of `owner`, as long as no data is tagged with it.
+   */
+  async deleteMetric(_id: ObjectId, owner: ObjectId) {
+    const metric = await this.getMetric(_id);
+    if (!metric.owner || !metric.owner.equals(owner)) throw new NotAllowedError(`User ${owner} is not the owner of metric ${metric.name}!`);
+    if (await this.data.readOne({ metric: _id })) throw new NotAllowedError(`Metric ${metric.name} is still used by data!`);
+    await this.metrics.deleteOne({ _id });
+    return { msg: "Metric successfully deleted!" };
+  }
+
+  /**
+   * Parse `value` as a value of `metric`. Durations can be given in seconds or as `[hh:]mm:ss`.
+   */
+  parseValue(metric: MetricDoc, value: string) {
+    let parsed = Number(value);
+    if (metric.valueType === MetricValueType.DURATION && value.includes(":")) {
+      const parts = value.split(":").map(Number);
+      parsed = parts.length <= 3 && parts.every((part) => part >= 0) ? parts.reduce((total, part) => total * 60 + part, 0) : NaN;
+    }
+    if (value.trim() === "" || !Number.isFinite(parsed)) throw new BadValuesError(`Value ${value} is not a valid ${metric.valueType} for metric ${metric.name}!`);
+    return parsed;
+  }
+
+  /**
+   * Check that an entry of `score` on `date` follows the rules of `metric`, as of `now`.
+   */
+  assertFollowsRules(metric: MetricDoc, date: Date, score: number, now = new Date()) {
+    const rules = metric.rules ?? DEFAULT_RULES;
+    if (isNaN(date.getTime())) throw new BadValuesError("Date is not a valid date!");
+    if (!rules.allowFuture && date > now) throw new BadValuesError(`Metric ${metric.name} does not take entries dated in the future!`);
+    if (rules.maxDaysBack !== undefined && date.getTime() < now.getTime() - rules.maxDaysBack * DAY_MS) {
+      throw new BadValuesError(`Metric ${metric.name} only takes entries from the last ${rules.maxDaysBack} days!`);
+    }
+    if (!Number.isFinite(score)) throw new BadValuesError("Score must be a number!");
+    if (metric.valueType === MetricValueType.INTEGER && !Number.isInteger(score)) throw new BadValuesError(`Metric ${metric.name} only takes whole numbers!`);
+    if (metric.valueType === MetricValueType.DURATION && score < 0) throw new BadValuesError(`Metric ${metric.name} does not take negative durations!`);
+    if (rules.min !== undefined && score < rules.min) throw new BadValuesError(`Score ${score} is below the minimum of ${rules.min} for metric ${metric.name}!`);
+    if (rules.max !== undefined && score > rules.max) throw new BadValuesError(`Score ${score} is above the maximum of ${rules.max} for metric ${metric.name}!`);
+  }
+
+  /**
+   * Check that `entries` can all be logged for `user` in order, each following the rules of its metric against both
+   * the user's existing data and the entries before it, so that they can be logged all or nothing.
+   */
+  async assertCanLogAll(user: ObjectId, entries: { date: Date; score: number; metric: MetricDoc }[], timezone = DEFAULT_TIMEZONE) {
+    const batch = new Set<string>();
+    for (const [i, entry] of entries.entries()) {
+      try {
+        await this.assertCanLog(user, entry, timezone, batch);
+      } catch (e) {
+        if (e instanceof BadValuesError) throw new BadValuesError("Entry {0} cannot be logged: {1}", i + 1, e.message);
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * Check that `entry` can be logged for `user` following the rules of its metric, as one of a batch of entries
+   * logged in order. `batch` holds the metrics and days of the entries before it and gets the entry's added.
+   */
+  async assertCanLog(user: ObjectId, entry: { date: Date; score: number; metric: MetricDoc }, timezone = DEFAULT_TIMEZONE, batch = new Set<string>()) {
+    this.assertFollowsRules(entry.metric, entry.date, entry.score);
+    const day = toDay(entry.date, timezone);
+    const key = `${entry.metric._id}:${day}`;
+    if ((entry.metric.rules ?? DEFAULT_RULES).perDay === DuplicatePolicy.REJECT && (batch.has(key) || (await this.getSameDayEntry(user, entry.metric._id, day)))) {
+      throw new DuplicateEntryError(entry.metric.name, day);
+    }
+    batch.add(key);
+  }
+
+  /**
+   * Compute the statistics of the data of `metric` of `user`, optionally only those within `period`, leaving out hidden data.
+   * Everything is aggregated by the database. Streaks, weeks (starting on Monday) and months are made of the calendar days
+   * the data was logged on, and whether the current streak is still going is judged by today in `timezone`.
+   */
+  async getStats(user: ObjectId, metric: MetricDoc, period?: DataPeriod, now = new Date(), timezone = DEFAULT_TIMEZONE): Promise<DataStats> {
+    const match: Record<string, unknown> = { user, metric: this.metricFilter(metric._id), hidden: { $ne: true }, ...this.periodFilter(period) };
+    const rollup = (unit: "week" | "month") => [
+      { $group: { _id: { $dateTrunc: { date: DAY_AS_DATE, unit, ...(unit === "week" ? { startOfWeek: "monday" } : {}) } }, ...SUMMARY_FIELDS } },
+      { $sort: { _id: 1 } },
+      { $project: { _id: 0, start: "$_id", count: 1, total: 1, mean: 1, best: 1, worst: 1 } },
+    ];
+
+    const [facets] = await this.data.collection
+      .aggregate<{
+        summary: (ScoreSummary & { stdDev: number | null })[];
+        median: { median: number }[];
+        streaks: { longest: number; latestEnd: Date; latestLength: number }[];
+        weekly: Rollup[];
+        monthly: Rollup[];
+      }>([
+        { $match: match },
+        {
+          $facet: {
+            summary: [{ $group: { _id: null, ...SUMMARY_FIELDS, stdDev: { $stdDevPop: "$score" } } }],
+            // Number the scores in order and average the middle one or two, without collecting every score into one document
+            median: [
+              {
+                $setWindowFields: {
+                  sortBy: { score: 1 },
+                  output: { position: { $documentNumber: {} }, n: { $count: {}, window: { documents: ["unbounded", "unbounded"] } } },
+                },
+              },
+              { $match: { $expr: { $in: ["$position", [{ $ceil: { $divide: ["$n", 2] } }, { $add: [{ $floor: { $divide: ["$n", 2] } }, 1] }]] } } },
+              { $group: { _id: null, median: { $avg: "$score" } } },
+            ],
+            // Consecutive days share the same difference between their day number and their position among the days
+            streaks: [
+              { $group: { _id: DAY_AS_DATE } },
+              { $setWindowFields: { sortBy: { _id: 1 }, output: { position: { $documentNumber: {} } } } },
+              { $group: { _id: { $subtract: [{ $divide: [{ $toLong: "$_id" }, DAY_MS] }, "$position"] }, end: { $max: "$_id" }, length: { $sum: 1 } } },
+              { $sort: { end: -1 } },
+              { $group: { _id: null, longest: { $max: "$length" }, latestEnd: { $first: "$end" }, latestLength: { $first: "$length" } } },
+            ],
+            weekly: rollup("week"),
+            monthly: rollup("month"),
+          },
+        },
+      ])
+      .toArray();
+
+    const summary = facets.summary[0] ?? { count: 0, total: 0, mean: null, best: null, worst: null, stdDev: null };
+    const streaks = facets.streaks[0];
+    const yesterday = new Date(addDays(toDay(now, timezone), -1));
+    // The pipeline takes the highest score as the best, so swap them when lower is better
+    const orient = <Summary extends ScoreSummary>(s: Summary) => (metric.direction === MetricDirection.LOWER ? { ...s, best: s.worst, worst: s.best } : s);
+    return {
+      ...orient({ count: summary.count, total: summary.total, mean: summary.mean, best: summary.best, worst: summary.worst }),
+      median: facets.median[0]?.median ?? null,
+      stdDev: summary.stdDev,
+      currentStreak: streaks && streaks.latestEnd >= yesterday ? streaks.latestLength : 0,
+      longestStreak: streaks?.longest ?? 0,
+      weekly: facets.weekly.map(orient),
+      monthly: facets.monthly.map(orient),
+    };
+  }
+
+  /**
+   * Whether `data` deviates wildly from the other data of its metric of its owner, leaving out hidden data.
+   * So that users who always log the same score still get outliers, the standard deviation is taken to be
+   * at least a tenth of the mean.
+   */
+  async isOutlier(data: DataDoc) {
+    const match: Record<string, unknown> = { _id: { $ne: data._id }, user: data.user, metric: this.metricFilter(data.metric ?? DEFAULT_METRIC), hidden: { $ne: true } };
+    const [history] = await this.data.collection
+      .aggregate<{ count: number; mean: number; stdDev: number }>([{ $match: match }, { $group: { _id: null, count: { $sum: 1 }, mean: { $avg: "$score" }, stdDev: { $stdDevPop: "$score" } } }])
+      .toArray();
+    if (!history || history.count < OUTLIER_MIN_HISTORY) return false;
+    const spread = Math.max(history.stdDev, Math.abs(history.mean) / 10);
+    return spread > 0 && Math.abs(data.score - history.mean) > OUTLIER_DEVIATIONS * spread;
+  }
+
+  redactUser<Data extends FormattedData>(data: Data) {
     // eslint-disable-next-line
     const { user, ...rest } = data;
     return rest;
   }
 
-  async update(_id: ObjectId, date?: Date, score?: number) {
+  /**
+   * Change the date or score of data `_id`, following the rules of its metric. A new date falls on a calendar day
+   * of `timezone`, and moving it onto a day that already has an entry is rejected for metrics that allow only one entry per day.
+   */
+  async update(_id: ObjectId, date?: Date, score?: number, timezone = DEFAULT_TIMEZONE) {
+    const current = await this.data.readOne({ _id });
+    if (!current) throw new NotFoundError(`Data ${_id} does not exist!`);
+    const metric = await this.getMetric(current.metric);
+    this.assertFollowsRules(metric, date ?? current.date, score ?? current.score);
+    const day = date ? toDay(date, timezone) : undefined;
+    if (day && (metric.rules ?? DEFAULT_RULES).perDay !== DuplicatePolicy.ALLOW) {
+      const existing = await this.getSameDayEntry(current.user, metric._id, day);
+      if (existing && !existing._id.equals(_id)) throw new DuplicateEntryError(metric.name, day);
+    }
     const update: Partial<DataDoc> = {};
     if (date) update.date = date;
-    if (score) update.score = score;
+    if (day) update.day = day;
+    if (score !== undefined) update.score = score;
     await this.data.partialUpdateOne({ _id }, update);
+    const data = await this.data.readOne({ _id });
+    if (data) this.events.publish("updated", data);
     return { msg: "Data successfully updated!" };
   }
 
+  /**
+   * Hide data `_id` from listings and competition standings, or show it again.
+   */
+  async setHidden(_id: ObjectId, hidden: boolean) {
+    await this.assertDataExists(_id);
+    await this.data.partialUpdateOne({ _id }, { hidden });
+    const data = await this.data.readOne({ _id });
+    if (data) this.events.publish("updated", data);
+    return { msg: hidden ? "Data successfully hidden!" : "Data successfully shown!" };
+  }
+
   async delete(_id: ObjectId) {
-    await this.data.deleteOne({ _id });
+    const data = await this.data.popOne({ _id });
+    if (data) this.events.publish("deleted", data);
     return { msg: "Data successfully deleted!" };
   }
 
+  async deleteByUser(user: ObjectId) {
+    await this.data.deleteMany({ user });
+    return { msg: "Data successfully deleted!" };
+  }
+
+  async reassignUser(user: ObjectId, newUser: ObjectId) {
+    await this.data.collection.updateMany({ user }, { $set: { user: newUser, dateUpdated: new Date() } });
+    return { msg: "Data successfully reassigned!" };
+  }
+
+  /**
+   * Delete the metrics of `owner`, except those in `keep`.
+   */
+  async deleteMetricsByOwner(owner: ObjectId, keep: ObjectId[] = []) {
+    await this.metrics.deleteMany({ owner, _id: { $nin: keep } });
+    return { msg: "Metrics successfully deleted!" };
+  }
+
+  async reassignMetricOwner(owner: ObjectId, newOwner: ObjectId) {
+    await this.metrics.collection.updateMany({ owner }, { $set: { owner: newOwner, dateUpdated: new Date() } });
+    return { msg: "Metrics successfully reassigned!" };
+  }
+
+  async assertDataExists(_id: ObjectId) {
+    if (!(await this.data.readOne({ _id }))) throw new NotFoundError(`Data ${_id} does not exist!`);
+  }
+
   async assertUserIsOwner(_id: ObjectId, user: ObjectId) {
     const data = await this.data.readOne({ _id });
     if (!data) throw new NotFoundError(`Data ${_id} does not exist!`);
     if (!user.equals(data.user)) throw new DataOwnerNotMatchError(_id, user);
   }
+
+  /**
+   * Get an entry of `metric` of `user` on calendar day `day`, if there is one.
+   */
+  private async getSameDayEntry(user: ObjectId, metric: ObjectId, day: string) {
+    const query: Record<string, unknown> = { user, metric: this.metricFilter(metric), ...this.periodFilter({ days: [day, day] }) };
+    return await this.data.readOne(query);
+  }
+
+  /**
+   * Filter for the data within `period`, where data without a calendar day falls on its UTC day.
+   */
+  private periodFilter(period?: DataPeriod): Record<string, unknown> {
+    if (!period) return {};
+    if ("dates" in period) return { date: { $gte: period.dates[0], $lte: period.dates[1] } };
+    const [first, last] = period.days;
+    return {
+      $or: [{ day: { $gte: first, $lte: last } }, { day: { $exists: false }, date: { $gte: startOfDay(first), $lte: endOfDay(last) } }],
+    };
+  }
+
+  private usersInRangeQuery(users: ObjectId[], dateRange: [Date, Date], metric: ObjectId): Record<string, unknown> {
+    return { user: { $in: users }, date: { $gte: dateRange[0], $lte: dateRange[1] }, metric: this.metricFilter(metric), hidden: { $ne: true } };
+  }
+
+  /**
+   * Filter for the data of `metric`, where data without a metric has the default metric.
+   */
+  private metricFilter(metric: ObjectId) {
+    return metric.equals(DEFAULT_METRIC) ? { $in: [DEFAULT_METRIC, null] } : metric;
+  }
 }
 
 export class DataOwnerNotMatchError extends NotAllowedError {
@@ -98,3 +578,12 @@ export class DataOwnerNotMatchError extends NotAllowedError {
     super(`Data ${_id} is not owned by user ${user}!`);
   }
 }
+
+export class DuplicateEntryError extends BadValuesError {
+  constructor(
+    public readonly metric: string,
+    public readonly day: string,
+  ) {
+    super("Metric {0} only takes one entry per day, and there already is one on {1}!", metric, day);
+  }
+}
@@ -0,0 +1,127 @@
+import { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+
+import { Authing, Blocking, Commenting, Competing, Disputing, Friending, Joining, Linking, Posting, Sessioning, Tracking } from "./app";
+import { CompetitionDoc, CompetitionStatus } from "./concepts/competing";
+import { DataDoc, DEFAULT_METRIC } from "./concepts/tracking";
+import Responses from "./responses";
+import { getStandings } from "./standings";
+
+/**
+ * How often to send a comment down idle streams so that proxies don't close them.
+ */
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * The open event streams of each logged-in user, keyed by user id.
+ * A user has one stream per open tab or client.
+ */
+const streams = new Map<string, Set<Response>>();
+
+/**
+ * Express handler for `GET /api/events`: a Server-Sent Events stream of what happens around the logged-in user.
+ *
+ * Events:
+ *   - `friend_request`: someone sent the user a friend request
+ *   - `comment`: someone commented on one of the user's posts
+ *   - `leaderboard`: the standings of an active competition the user is a member of changed
+ *   - `friend_data`: a friend of the user logged data
+ */
+export async function streamEvents(req: Request, res: Response) {
+  if (!Sessioning.isLoggedIn(req.session)) {
+    res.status(401).json({ msg: "Must be logged in!" });
+    return;
+  }
+  // This route is not in `appRouter`, so check for suspension like its guard does
+  try {
+    await Authing.assertIsNotSuspended(Sessioning.getUser(req.session));
+  } catch (e) {
+    Sessioning.end(req.session);
+    const error = e as Error & { HTTP_CODE?: number };
+    res.status(error.HTTP_CODE ?? 500).json({ msg: error.message ?? "Internal Server Error" });
+    return;
+  }
+  const user = Sessioning.getUser(req.session).toString();
+
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  res.write(": connected\n\n");
+  const userStreams = streams.get(user) ?? new Set();
+  userStreams.add(res);
+  streams.set(user, userStreams);
+
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+  const close = () => {
+    clearInterval(heartbeat);
+    userStreams.delete(res);
+    if (userStreams.size === 0) streams.delete(user);
+  };
+  // The client can go away, or the server can end the stream, e.g. when suspending the user
+  req.on("close", close);
+  res.on("close", close);
+}
+
+function isStreaming(user: ObjectId) {
+  return streams.has(user.toString());
+}
+
+function push(users: ObjectId[], event: string, data: unknown) {
+  const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const user of users) {
+    for (const res of streams.get(user.toString()) ?? []) res.write(message);
+  }
+}
+
+Friending.events.subscribe("request", async ({ from, to }) => {
+  if (!isStreaming(to)) return;
+  const [fromUsername, toUsername] = await Authing.idsToUsernames([from, to]);
+  push([to], "friend_request", { from: fromUsername, to: toUsername });
+});
+
+Commenting.events.subscribe("created", async (comment) => {
+  const [post] = await Posting.getByIds([comment.item]);
+  if (!post || post.author.equals(comment.author) || !isStreaming(post.author)) return;
+  if ((await Blocking.filterNotIgnoring([post.author], comment.author)).length === 0) return;
+  const formatted = await Responses.comment(comment);
+  push([post.author], "comment", (await Linking.hasLink(comment.author, comment._id)) ? formatted : Commenting.redactAuthor(formatted));
+});
+
+Tracking.events.subscribe("logged", async (data) => {
+  const friends = await Blocking.filterNotIgnoring((await Friending.getFriends(data.user)).filter(isStreaming), data.user);
+  if (friends.length > 0) {
+    const formatted = (await Responses.data([data]))[0];
+    push(friends, "friend_data", (await Linking.hasLink(data.user, data._id)) ? formatted : Tracking.redactUser(formatted));
+  }
+  await pushLeaderboards(data);
+});
+Tracking.events.subscribe("updated", pushLeaderboards);
+Tracking.events.subscribe("deleted", pushLeaderboards);
+
+Disputing.events.subscribe("resolved", async (dispute) => {
+  const [competition] = await Competing.getByIds([dispute.group]);
+  if (competition && Competing.getStatus(competition) === CompetitionStatus.ACTIVE) await pushLeaderboard(competition);
+});
+
+// Suspended users lose their open streams along with their session
+Authing.events.subscribe("suspended", (user) => {
+  for (const res of streams.get(user.toString()) ?? []) res.end();
+});
+
+/**
+ * Push the standings of every active competition of `data`'s metric that `data`'s owner is a member of to its streaming members.
+ */
+async function pushLeaderboards(data: DataDoc) {
+  const groups = (await Joining.getUserMemberships(data.user)).map((membership) => membership.group);
+  const metric = data.metric ?? DEFAULT_METRIC;
+  const competitions = (await Competing.getByIds(groups)).filter((competition) => Competing.getStatus(competition) === CompetitionStatus.ACTIVE && metric.equals(competition.metric ?? DEFAULT_METRIC));
+  await Promise.all(competitions.map(pushLeaderboard));
+}
+
+/**
+ * Push the standings of `competition` to its streaming members.
+ */
+async function pushLeaderboard(competition: CompetitionDoc) {
+  const streaming = (await Joining.getMembers(competition._id)).filter(isStreaming);
+  if (streaming.length === 0) return;
+  const standings = await Responses.standings(await getStandings(competition));
+  push(streaming, "leaderboard", { competition: competition.name, standings });
+}
@@ -0,0 +1,130 @@
+import { BadValuesError } from "../concepts/errors";
+
+/**
+ * Helpers for calendar days, written as `YYYY-MM-DD`, in IANA timezones such as `Europe/Paris`.
+ */
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function assertValidTimezone(timezone: string) {
+  if (!isValidTimezone(timezone)) throw new BadValuesError(`Timezone ${timezone} is not a valid IANA timezone!`);
+}
+
+/**
+ * Whether `value` is a calendar day rather than a full date and time.
+ */
+export function isDay(value: string) {
+  return DAY_PATTERN.test(value);
+}
+
+/**
+ * Get the calendar day that `date` falls on in `timezone`.
+ */
+export function toDay(date: Date, timezone = DEFAULT_TIMEZONE) {
+  const parts = getParts(date, timezone);
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Get the moment calendar day `day` starts in `timezone`.
+ */
+export function startOfDay(day: string, timezone = DEFAULT_TIMEZONE) {
+  const [year, month, date] = day.split("-").map(Number);
+  return fromWallTime(Date.UTC(year, month - 1, date), timezone);
+}
+
+/**
+ * Get the moment calendar day `day` ends in `timezone`, which is the last millisecond before the next day starts.
+ */
+export function endOfDay(day: string, timezone = DEFAULT_TIMEZONE) {
+  return new Date(startOfDay(addDays(day, 1), timezone).getTime() - 1);
+}
+
+/**
+ * Get the calendar day `days` days after `day`.
+ */
+export function addDays(day: string, days: number) {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Move `date` by whole months and days on the wall clock of `timezone`, so that it keeps its local time of day
+ * across daylight saving changes.
+ */
+export function shiftDate(date: Date, months: number, days: number, timezone = DEFAULT_TIMEZONE) {
+  const wallTime = new Date(date.getTime() + getOffset(date, timezone));
+  wallTime.setUTCMonth(wallTime.getUTCMonth() + months, wallTime.getUTCDate() + days);
+  return fromWallTime(wallTime.getTime(), timezone);
+}
+
+/**
+ * Parse a date given either as a calendar day, which is taken to start in `timezone`, or as a full date and time.
+ */
+export function parseDate(value: string, timezone = DEFAULT_TIMEZONE) {
+  assertValidTimezone(timezone);
+  const date = isDay(value) ? startOfDay(value, timezone) : new Date(value);
+  if (isNaN(date.getTime())) throw new BadValuesError(`${value} is not a valid date!`);
+  return date;
+}
+
+/**
+ * Same as {@link parseDate} but a calendar day is taken to end in `timezone`, so that the whole day is included.
+ */
+export function parseEndDate(value: string, timezone = DEFAULT_TIMEZONE) {
+  if (!isDay(value)) return parseDate(value, timezone);
+  assertValidTimezone(timezone);
+  return endOfDay(value, timezone);
+}
+
+/**
+ * Parse a range given as `start_end`, where calendar days cover the whole day in `timezone`.
+ */
+export function parseRange(value: string, timezone = DEFAULT_TIMEZONE): [Date, Date] {
+  const [start, end] = value.split("_");
+  if (start === undefined || end === undefined) throw new BadValuesError("Date range must be given as start_end!");
+  return [parseDate(start, timezone), parseEndDate(end, timezone)];
+}
+
+/**
+ * Get the moment the wall clock of `timezone` shows `wallTime`, given in milliseconds as if it were UTC.
+ */
+function fromWallTime(wallTime: number, timezone: string) {
+  // The offset at the moment can differ from the offset at the first guess around daylight saving changes
+  const guess = wallTime - getOffset(new Date(wallTime), timezone);
+  return new Date(wallTime - getOffset(new Date(guess), timezone));
+}
+
+/**
+ * Get how far ahead of UTC the wall clock of `timezone` is at `date`, in milliseconds.
+ */
+function getOffset(date: Date, timezone: string) {
+  const parts = getParts(date, timezone);
+  const wallTime = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour) % 24, Number(parts.minute), Number(parts.second));
+  return wallTime - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function getParts(date: Date, timezone: string) {
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  return Object.fromEntries(format.formatToParts(date).map((part) => [part.type, part.value])) as Record<Intl.DateTimeFormatPartTypes, string>;
+}
@@ -1,4 +1,5 @@
 import {
+  BSON,
   BulkWriteOptions,
   Collection,
   CountDocumentsOptions,
@@ -15,6 +16,7 @@ import {
   WithoutId,
 } from "mongodb";
 
+import { BadValuesError } from "../concepts/errors";
 import db from "../db";
 
 export interface BaseDoc {
@@ -25,6 +27,25 @@ export interface BaseDoc {
 
 export type WithoutBase<T extends BaseDoc> = Omit<T, keyof BaseDoc>;
 
+/**
+ * Which page of a list to read: the `nextCursor` of the previous page (if any) and how many items to read.
+ */
+export interface PageOptions {
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * A page of a list. `nextCursor` reads the following page, and is `null` on the last page.
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
 /**
  * MongoDB collection with operations that maintain created and updated timestamps.
  *
@@ -93,6 +114,85 @@ export default class DocCollection<Schema extends BaseDoc> {
     return await this.collection.find<Schema>(filter, options).toArray();
   }
 
+  /**
+   * Read one page of documents that match `filter`, ordered by `sortField` and then by `_id` so that
+   * the order is stable even when `sortField` has duplicates.
+   * @param page the cursor of the previous page and the page size
+   * @param sortField field to order by, in addition to `_id`
+   * @param direction `-1` for descending (newest first by default) or `1` for ascending order
+   * @returns the page of documents and the cursor of the next page
+   */
+  async readPage(filter: Filter<Schema>, page: PageOptions = {}, sortField?: string, direction: 1 | -1 = -1): Promise<Page<Schema>> {
+    const { query, sort, pageSize } = this.pageQuery(filter, page, sortField, direction);
+    const items = await this.collection.find<Schema>(query, { sort, limit: pageSize }).toArray();
+    return this.toPage(items, pageSize, sortField);
+  }
+
+  /**
+   * Same as {@link readPage}, but only reads the documents whose `join.localField` is the id of a document
+   * in collection `join.from` that matches `join.filter`, leaving the join to the database.
+   */
+  async readPageJoined(
+    filter: Filter<Schema>,
+    join: { from: string; localField: string; filter: Document },
+    page: PageOptions = {},
+    sortField?: string,
+    direction: 1 | -1 = -1,
+  ): Promise<Page<Schema>> {
+    const { query, sort, pageSize } = this.pageQuery(filter, page, sortField, direction);
+    const items = await this.collection
+      .aggregate<Schema>([
+        { $match: query },
+        { $sort: sort },
+        { $lookup: { from: join.from, localField: join.localField, foreignField: "_id", pipeline: [{ $match: join.filter }, { $project: { _id: 1 } }], as: "_joined" } },
+        { $match: { _joined: { $ne: [] } } },
+        { $limit: pageSize },
+        { $project: { _joined: 0 } },
+      ])
+      .toArray();
+    return this.toPage(items, pageSize, sortField);
+  }
+
+  private pageQuery(filter: Filter<Schema>, page: PageOptions, sortField: string | undefined, direction: 1 | -1) {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1) throw new BadValuesError("Page limit must be a positive integer!");
+    const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+
+    const sort: Record<string, 1 | -1> = sortField ? { [sortField]: direction, _id: direction } : { _id: direction };
+    const query = (page.cursor ? { $and: [filter, this.afterCursor(page.cursor, sortField, direction)] } : filter) as Filter<Schema>;
+    return { query, sort, pageSize };
+  }
+
+  private toPage(items: Schema[], pageSize: number, sortField?: string): Page<Schema> {
+    const last = items[items.length - 1];
+    const nextCursor = items.length === pageSize ? this.encodeCursor(last, sortField) : null;
+    return { items, nextCursor };
+  }
+
+  private encodeCursor(item: Schema, sortField?: string) {
+    const position = { id: item._id, value: sortField ? (item as Record<string, unknown>)[sortField] : null };
+    return Buffer.from(BSON.EJSON.stringify(position)).toString("base64url");
+  }
+
+  /**
+   * Make a filter that matches documents after the one `cursor` points to.
+   */
+  private afterCursor(cursor: string, sortField: string | undefined, direction: 1 | -1): Filter<Schema> {
+    let position: { id: ObjectId; value: unknown };
+    try {
+      position = BSON.EJSON.parse(Buffer.from(cursor, "base64url").toString()) as { id: ObjectId; value: unknown };
+    } catch {
+      throw new BadValuesError("Page cursor is invalid!");
+    }
+    if (!(position.id instanceof ObjectId)) throw new BadValuesError("Page cursor is invalid!");
+
+    const after = direction === -1 ? "$lt" : "$gt";
+    if (!sortField) return { _id: { [after]: position.id } } as Filter<Schema>;
+    return {
+      $or: [{ [sortField]: { [after]: position.value } }, { [sortField]: position.value, _id: { [after]: position.id } }],
+    } as Filter<Schema>;
+  }
+
   /**
    * Replace the document that matches `filter` with `item`.
    * @returns an object describing what was updated
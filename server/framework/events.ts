@@ -0,0 +1,40 @@
+import { EventEmitter } from "events";
+
+/**
+ * An in-process publish/subscribe channel for the actions of a concept.
+ * `Events` maps each topic to the type of payload published on it.
+ *
+ * Subscribers run after the publishing action has returned, and their errors are logged
+ * instead of being thrown back into the action, so a failing subscriber can't fail a request.
+ * Since everything stays in memory, only subscribers on the same node are reached.
+ */
+export default class EventBus<Events extends Record<string, unknown>> {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // Every open event stream subscribes, so don't warn about "leaking" listeners
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish<Topic extends keyof Events & string>(topic: Topic, payload: Events[Topic]) {
+    this.emitter.emit(topic, payload);
+  }
+
+  /**
+   * Call `listener` with the payload of every event published on `topic`.
+   * @returns A function that unsubscribes `listener`
+   */
+  subscribe<Topic extends keyof Events & string>(topic: Topic, listener: (payload: Events[Topic]) => void | Promise<void>) {
+    const handler = (payload: Events[Topic]) => {
+      setImmediate(() => {
+        Promise.resolve()
+          .then(() => listener(payload))
+          .catch((e: unknown) => console.error(`Subscriber to ${topic} failed:`, e));
+      });
+    };
+    this.emitter.on(topic, handler);
+    return () => {
+      this.emitter.off(topic, handler);
+    };
+  }
+}
@@ -5,6 +5,12 @@ import { ZodSchema } from "zod";
 
 export type HttpMethod = "all" | "get" | "post" | "put" | "delete" | "patch" | "options" | "head";
 
+/**
+ * A permission check run before a route, given the session of the request.
+ * It denies the request by throwing, e.g. a `NotAllowedError`.
+ */
+export type Guard = (session: Request["session"]) => void | Promise<void>;
+
 /**
  * A formattable error. Use `{0}`, `{1}`, etc. in the error message to format it with the arguments passed to the constructor.
  * The `formatWith` method can be used to create a new error with the same format but different arguments.
@@ -45,6 +51,7 @@ export class FormattableError extends Error {
 export class Router {
   public readonly expressRouter = express.Router();
   private static readonly errorHandlers: Map<new (...args: never[]) => Error, (e: Error) => Error | Promise<Error>> = new Map();
+  private static readonly guards: Map<string, Guard> = new Map();
 
   constructor() {}
 
@@ -52,6 +59,21 @@ export class Router {
     this.errorHandlers.set(etype as new (...args: never[]) => Error, handler as (e: Error) => Error | Promise<Error>);
   }
 
+  /**
+   * Register a named permission check that routes can require with `@Router.guard(name)`.
+   */
+  public static registerGuard(name: string, guard: Guard) {
+    this.guards.set(name, guard);
+  }
+
+  private static async runGuards(names: string[], session: Request["session"]) {
+    for (const name of names) {
+      const guard = this.guards.get(name);
+      if (!guard) throw new Error(`Guard ${name} is not registered!`);
+      await guard(session);
+    }
+  }
+
   private static async handleError(err: Error) {
     try {
       for (const [etype, handler] of this.errorHandlers) {
@@ -65,8 +87,8 @@ export class Router {
     }
   }
 
-  public registerRoute(method: HttpMethod, path: string, action: Function, validator?: ZodSchema) {
-    this.expressRouter[method](path, this.makeRoute(action, validator));
+  public registerRoute(method: HttpMethod, path: string, action: Function, validator?: ZodSchema, guards: string[] = []) {
+    this.expressRouter[method](path, this.makeRoute(action, validator, guards));
   }
 
   public all(path: string, action: Function) {
@@ -94,7 +116,7 @@ export class Router {
     this.registerRoute("head", path, action);
   }
 
-  private makeRoute(f: Function, validator?: ZodSchema) {
+  private makeRoute(f: Function, validator?: ZodSchema, guards: string[] = []) {
     const argNames = getParamNames(f);
 
     return async (req: Request, res: Response) => {
@@ -128,6 +150,7 @@ export class Router {
 
       let result;
       try {
+        await Router.runGuards(guards, req.session);
         result = f.call(null, ...Object.values(args));
         if (result instanceof Promise) {
           result = await result;
@@ -186,6 +209,18 @@ export class Router {
     };
   }
 
+  /**
+   * (called as a decorator) Require the permission checks registered under `names` to pass before the route runs.
+   * @param names Names given to {@link registerGuard}
+   */
+  static guard(...names: string[]) {
+    return function (originalMethod: unknown, context: ClassMethodDecoratorContext<object>) {
+      context.addInitializer(function () {
+        Reflect.defineMetadata("guards", names, this, context.name);
+      });
+    };
+  }
+
   private static httpDecorator(method: HttpMethod, route: string) {
     return function (originalMethod: Function, context: ClassMethodDecoratorContext<Object>) {
       context.addInitializer(function () {
@@ -209,9 +244,10 @@ function getParamNames(f: Function) {
 /**
  * Build an Express router.
  * @param routes object where functions have been decorated with e.g. `@Router.get`, etc.
+ * @param defaultGuards names of guards to run before every route, ahead of those given with `@Router.guard`
  * @returns router to be mounted in an Express app
  */
-export function getExpressRouter(routes: Object) {
+export function getExpressRouter(routes: Object, defaultGuards: string[] = []) {
   const router = new Router();
 
   // Get all methods in the Routes class (e.g., getUsers, createUser, etc).
@@ -224,6 +260,7 @@ export function getExpressRouter(routes: Object) {
     const method = Reflect.getMetadata("method", routes, endpoint) as HttpMethod;
     const path = Reflect.getMetadata("path", routes, endpoint) as string;
     const zodSchema = Reflect.getMetadata("zodSchema", routes, endpoint) as ZodSchema | undefined;
+    const guards = (Reflect.getMetadata("guards", routes, endpoint) as string[] | undefined) ?? [];
 
     // Skip if the method or path is not defined (e.g., when endpoint is the constructor)
     if (!method || !path) {
@@ -233,7 +270,7 @@ export function getExpressRouter(routes: Object) {
     // The ugly cast is because TypeScript doesn't know that `routes[endpoint]` is a correct method.
     const action = (routes as Record<string, Function>)[endpoint];
 
-    router.registerRoute(method, path, action, zodSchema);
+    router.registerRoute(method, path, action, zodSchema, [...defaultGuards, ...guards]);
   }
 
   return router.expressRouter;
@@ -1,11 +1,21 @@
-import { Authing, Competing, Tracking } from "./app";
-import { CommentAuthorNotMatchError, CommentDoc } from "./concepts/commenting";
-import { CompetitionDoc, CompetitionOwnerNotMatchError } from "./concepts/competing";
+import { ObjectId } from "mongodb";
+
+import { Authing, Competing, Reacting, Tracking } from "./app";
+import { MissingRoleError, UserSuspendedError } from "./concepts/authenticating";
+import { AlreadyBlockedError, BlockDoc } from "./concepts/blocking";
+import { CommentAuthorNotMatchError, CommentDoc, CommentThread, FormattedComment } from "./concepts/commenting";
+import { CompetitionAdminNotMatchError, CompetitionDoc, CompetitionOwnerNotMatchError, ResultDoc, Standing, TeamStanding } from "./concepts/competing";
+import { DisputeAlreadyOpenError, DisputeDoc } from "./concepts/disputing";
 import { AlreadyFriendsError, FriendNotFoundError, FriendRequestAlreadyExistsError, FriendRequestDoc, FriendRequestNotFoundError } from "./concepts/friending";
-import { MembershipDoc, UserIsAlreadyMemberError, UserIsNotMemberError } from "./concepts/joining";
+import { InviteDoc, JoinRequestAlreadyExistsError, JoinRequestDoc, JoinRequestNotFoundError, MembershipDoc, UserIsAlreadyMemberError, UserIsNotMemberError } from "./concepts/joining";
 import { LinkAlreadyExists, LinkDoc, UserDoesNotOwnLinkError } from "./concepts/linking";
+import { NotificationDoc } from "./concepts/notifying";
 import { PostAuthorNotMatchError, PostDoc } from "./concepts/posting";
-import { DataDoc, DataOwnerNotMatchError } from "./concepts/tracking";
+import { ReactionAlreadyExistsError, ReactionNotFoundError } from "./concepts/reacting";
+import { SeriesDoc } from "./concepts/recurring";
+import { ReportAlreadyExistsError, ReportDoc } from "./concepts/reporting";
+import { AlreadyOnTeamError, TeamDoc } from "./concepts/teaming";
+import { DataDoc, DataOwnerNotMatchError, DEFAULT_METRIC } from "./concepts/tracking";
 import { Router } from "./framework/router";
 
 /**
@@ -22,11 +32,13 @@ export default class Responses {
   }
 
   /**
-   * Same as {@link post} but for an array of PostDoc for improved performance.
+   * Same as {@link post} but for an array of PostDoc for improved performance,
+   * also adding the reactions on each post and which of them are by `viewer`.
    */
-  static async posts(posts: PostDoc[]) {
-    const authors = await Authing.idsToUsernames(posts.map((post) => post.author));
-    return posts.map((post, i) => ({ ...post, author: authors[i] }));
+  static async posts(posts: PostDoc[], viewer?: ObjectId) {
+    const ids = posts.map((post) => post._id);
+    const [authors, reactions] = await Promise.all([Authing.idsToUsernames(posts.map((post) => post.author)), Reacting.getSummaries(ids, viewer)]);
+    return posts.map((post, i) => ({ ...post, author: authors[i], reactions: reactions[i] }));
   }
 
   /**
@@ -50,11 +62,27 @@ export default class Responses {
   }
 
   /**
-   * Same as {@link comment} but for an array of CommentDoc for improved performance.
+   * Same as {@link comment} but for an array of CommentDoc for improved performance,
+   * also adding the reactions on each comment and which of them are by `viewer`.
+   */
+  static async comments(comments: CommentDoc[], viewer?: ObjectId) {
+    const ids = comments.map((comment) => comment._id);
+    const [authors, reactions] = await Promise.all([Authing.idsToUsernames(comments.map((comment) => comment.author)), Reacting.getSummaries(ids, viewer)]);
+    return comments.map((comment, i) => ({ ...comment, author: authors[i], reactions: reactions[i] }));
+  }
+
+  /**
+   * Same as {@link comments} but for every comment in threads of replies, keeping their nesting.
    */
-  static async comments(comments: CommentDoc[]) {
-    const authors = await Authing.idsToUsernames(comments.map((comment) => comment.author));
-    return comments.map((comment, i) => ({ ...comment, author: authors[i] }));
+  static async commentThreads(threads: CommentThread[], viewer?: ObjectId) {
+    const flatten = (threads: CommentThread[]): CommentDoc[] => threads.flatMap((thread) => [thread.comment, ...flatten(thread.replies)]);
+    const formatted = new Map((await this.comments(flatten(threads), viewer)).map((comment) => [comment._id.toString(), comment]));
+    const format = (thread: CommentThread): CommentThread<FormattedComment> => ({
+      ...thread,
+      comment: formatted.get(thread.comment._id.toString())!,
+      replies: thread.replies.map(format),
+    });
+    return threads.map(format);
   }
 
   /**
@@ -76,31 +104,70 @@ export default class Responses {
 
   /**
    * Convert DataDoc into more readable format for the frontend
-   * by converting the owner id into a username.
+   * by converting the owner id into a username and filling in the default metric if it has none.
    */
   static async d(d: DataDoc) {
     const user = await Authing.getUserById(d.user);
-    return { ...d, user: user.username };
+    return { ...d, user: user.username, metric: d.metric ?? DEFAULT_METRIC };
+  }
+
+  /**
+   * Same as {@link d} but for an array of DataDoc for improved performance,
+   * also adding the reactions on each entry and which of them are by `viewer`.
+   */
+  static async data(data: DataDoc[], viewer?: ObjectId) {
+    const ids = data.map((d) => d._id);
+    const [user, reactions] = await Promise.all([Authing.idsToUsernames(data.map((d) => d.user)), Reacting.getSummaries(ids, viewer)]);
+    return data.map((d, i) => ({ ...d, user: user[i], metric: d.metric ?? DEFAULT_METRIC, reactions: reactions[i] }));
   }
 
   /**
-   * Same as {@link d} but for an array of DataDoc for improved performance.
+   * Convert an array of DataDoc into CSV with one row per score, noting which entries are linked to their user.
    */
-  static async data(data: DataDoc[]) {
-    const user = await Authing.idsToUsernames(data.map((d) => d.user));
-    return data.map((d, i) => ({ ...d, user: user[i] }));
+  static dataCsv(data: DataDoc[], links: LinkDoc[]) {
+    const linked = new Set(links.map((link) => link.item.toString()));
+    const rows = data.map((d) => [d._id.toString(), d.date.toISOString(), d.score, linked.has(d._id.toString()), (d.metric ?? DEFAULT_METRIC).toString()].join(","));
+    return ["id,date,score,linked,metric", ...rows].join("\n");
+  }
+
+  /**
+   * Convert NotificationDocs into more readable format for the frontend
+   * by converting the recipient and actor ids into usernames.
+   */
+  static async notifications(notifications: NotificationDoc[]) {
+    const recipients = notifications.map((notification) => notification.recipient);
+    const actors = notifications.map((notification) => notification.actor ?? notification.recipient);
+    const usernames = await Authing.idsToUsernames(recipients.concat(actors));
+    return notifications.map((notification, i) => ({
+      ...notification,
+      recipient: usernames[i],
+      actor: notification.actor && usernames[i + notifications.length],
+    }));
+  }
+
+  /**
+   * Convert ReportDocs into more readable format for the frontend by converting the reporter ids into usernames.
+   */
+  static async reports(reports: ReportDoc[]) {
+    const reporters = await Authing.idsToUsernames(reports.map((report) => report.reporter));
+    return reports.map((report, i) => ({ ...report, reporter: reporters[i] }));
+  }
+
+  /**
+   * Convert BlockDocs into more readable format for the frontend by converting the target ids into usernames.
+   */
+  static async blocks(blocks: BlockDoc[]) {
+    const targets = await Authing.idsToUsernames(blocks.map((block) => block.target));
+    return blocks.map((block, i) => ({ ...block, target: targets[i] }));
   }
 
   /**
    * Convert CompetitionDoc into more readable format for the frontend
-   * by converting the owner id into a username and each data id into a
-   * formatted DataDoc.
+   * by converting the owner and admin ids into usernames and adding the competition's lifecycle status and join policy.
    */
   static async competition(competition: CompetitionDoc) {
-    const owner = await Authing.getUserById(competition.owner);
-    const dataDocs = await Tracking.getByIds(competition.data);
-    const dataDocsFormatted = await this.data(dataDocs);
-    return { ...competition, owner: owner.username, data: dataDocsFormatted };
+    const [owner, admins] = await Promise.all([Authing.getUserById(competition.owner), Authing.idsToUsernames(competition.admins ?? [])]);
+    return { ...competition, owner: owner.username, admins, status: Competing.getStatus(competition), joinPolicy: Competing.getJoinPolicy(competition) };
   }
 
   /**
@@ -109,9 +176,56 @@ export default class Responses {
    */
   static async competitions(competitions: CompetitionDoc[]) {
     const owner = await Authing.idsToUsernames(competitions.map((c) => c.owner));
-    const dataDocs = await Promise.all(competitions.map((c) => Tracking.getByIds(c.data)));
-    const dataDocsFormatted = await Promise.all(dataDocs.map((d) => this.data(d)));
-    return competitions.map((c, i) => ({ ...c, owner: owner[i], data: dataDocsFormatted[i] }));
+    const admins = await Authing.idsToUsernames(competitions.flatMap((c) => c.admins ?? []));
+    let adminIndex = 0;
+    return competitions.map((c, i) => ({
+      ...c,
+      owner: owner[i],
+      admins: (c.admins ?? []).map(() => admins[adminIndex++]),
+      status: Competing.getStatus(c),
+      joinPolicy: Competing.getJoinPolicy(c),
+    }));
+  }
+
+  /**
+   * Convert Standing into more readable format for the frontend
+   * by converting the user ids into usernames.
+   */
+  static async standings(standings: Standing[]) {
+    const users = await Authing.idsToUsernames(standings.map((s) => s.user));
+    return standings.map((s, i) => ({ ...s, user: users[i] }));
+  }
+
+  /**
+   * Convert SeriesDocs into more readable format for the frontend by converting the owner ids into usernames.
+   */
+  static async series(series: SeriesDoc[]) {
+    const owners = await Authing.idsToUsernames(series.map((s) => s.owner));
+    return series.map((s, i) => ({ ...s, owner: owners[i] }));
+  }
+
+  /**
+   * Convert TeamStanding into more readable format for the frontend
+   * by converting the user ids in each team's member standings into usernames.
+   */
+  static async teamStandings(standings: TeamStanding[]) {
+    return await Promise.all(standings.map(async (standing) => ({ ...standing, members: await this.standings(standing.members) })));
+  }
+
+  /**
+   * Convert TeamDocs into more readable format for the frontend by converting the member ids into usernames.
+   */
+  static async teams(teams: TeamDoc[]) {
+    return await Promise.all(teams.map(async (team) => ({ ...team, members: await Authing.idsToUsernames(team.members) })));
+  }
+
+  /**
+   * Convert ResultDoc into more readable format for the frontend
+   * by converting the user ids in its standings and winners into usernames.
+   */
+  static async result(result: ResultDoc) {
+    const [standings, winners] = await Promise.all([this.standings(result.standings), Authing.idsToUsernames(result.winners)]);
+    return { ...result, standings, winners };
   }
 
   /**
@@ -131,6 +245,39 @@ export default class Responses {
     const user = await Authing.idsToUsernames(memberships.map((m) => m.user));
     return memberships.map((m, i) => ({ ...m, user: user[i] }));
   }
+
+  /**
+   * Convert JoinRequestDocs into more readable format for the frontend by converting the user ids into usernames.
+   */
+  static async joinRequests(requests: JoinRequestDoc[]) {
+    const users = await Authing.idsToUsernames(requests.map((request) => request.user));
+    return requests.map((request, i) => ({ ...request, user: users[i] }));
+  }
+
+  /**
+   * Convert DisputeDocs into more readable format for the frontend by converting the opener and resolver ids into usernames
+   * and adding the disputed data, or `null` if it was deleted.
+   */
+  static async disputes(disputes: DisputeDoc[]) {
+    const users = disputes.flatMap((dispute) => [dispute.opener, dispute.resolvedBy]).filter((user): user is ObjectId => user !== undefined);
+    const [usernames, data] = await Promise.all([Authing.idsToUsernames(users), Tracking.getByIds(disputes.map((dispute) => dispute.item))]);
+    const usernameOf = new Map(users.map((user, i) => [user.toString(), usernames[i]]));
+    const formattedData = new Map((await this.data(data)).map((d) => [d._id.toString(), d]));
+    return disputes.map((dispute) => ({
+      ...dispute,
+      opener: dispute.opener ? usernameOf.get(dispute.opener.toString()) : null,
+      resolvedBy: dispute.resolvedBy ? usernameOf.get(dispute.resolvedBy.toString()) : null,
+      data: formattedData.get(dispute.item.toString()) ?? null,
+    }));
+  }
+
+  /**
+   * Convert InviteDocs into more readable format for the frontend by converting the creator ids into usernames.
+   */
+  static async invites(invites: InviteDoc[]) {
+    const creators = await Authing.idsToUsernames(invites.map((invite) => invite.creator));
+    return invites.map((invite, i) => ({ ...invite, creator: creators[i] }));
+  }
 }
 
 Router.registerError(PostAuthorNotMatchError, async (e) => {
@@ -185,6 +332,29 @@ Router.registerError(UserIsNotMemberError, async (e) => {
   return e.formatWith(username, groupName);
 });
 
+Router.registerError(JoinRequestAlreadyExistsError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  const groupName = (await Competing.getById(e.group)).name;
+  return e.formatWith(username, groupName);
+});
+
+Router.registerError(JoinRequestNotFoundError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  const groupName = (await Competing.getById(e.group)).name;
+  return e.formatWith(username, groupName);
+});
+
+Router.registerError(AlreadyOnTeamError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  const groupName = (await Competing.getById(e.group)).name;
+  return e.formatWith(username, groupName);
+});
+
+Router.registerError(DisputeAlreadyOpenError, async (e) => {
+  const competitionName = (await Competing.getById(e.group)).name;
+  return e.formatWith(competitionName, e.item);
+});
+
 Router.registerError(DataOwnerNotMatchError, async (e) => {
   const username = (await Authing.getUserById(e.user)).username;
   return e.formatWith(e._id, username);
@@ -195,3 +365,39 @@ Router.registerError(CompetitionOwnerNotMatchError, async (e) => {
   const competitionName = (await Competing.getById(e.competition)).name;
   return e.formatWith(username, competitionName);
 });
+
+Router.registerError(CompetitionAdminNotMatchError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  const competitionName = (await Competing.getById(e.competition)).name;
+  return e.formatWith(username, competitionName);
+});
+
+Router.registerError(ReactionAlreadyExistsError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  return e.formatWith(username, e.item, e.reaction);
+});
+
+Router.registerError(ReactionNotFoundError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  return e.formatWith(username, e.item, e.reaction);
+});
+
+Router.registerError(MissingRoleError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  return e.formatWith(username, e.role);
+});
+
+Router.registerError(UserSuspendedError, async (e) => {
+  const username = (await Authing.getUserById(e.user)).username;
+  return e.formatWith(username, e.reason);
+});
+
+Router.registerError(ReportAlreadyExistsError, async (e) => {
+  const username = (await Authing.getUserById(e.reporter)).username;
+  return e.formatWith(username, e.item);
+});
+
+Router.registerError(AlreadyBlockedError, async (e) => {
+  const [user, target] = await Promise.all([Authing.getUserById(e.user), Authing.getUserById(e.target)]);
+  return e.formatWith(user.username, target.username, e.kind);
+});
@@ -1,12 +1,23 @@
 import { ObjectId } from "mongodb";
 
-import { Router, getExpressRouter } from "./framework/router";
-
-import { Authing, Commenting, Competing, Friending, Joining, Linking, Posting, Sessioning, Tracking } from "./app";
-import { PostOptions } from "./concepts/posting";
+import { isDay, parseDate, parseEndDate, parseRange } from "./framework/days";
+import { PageOptions } from "./framework/doc";
+import { FormattableError, Router, getExpressRouter } from "./framework/router";
+
+import { Authing, Blocking, Commenting, Competing, Disputing, Friending, Importing, Joining, Linking, Notifying, Posting, Reacting, Recurring, Reporting, Sessioning, Teaming, Tracking } from "./app";
+import { Role } from "./concepts/authenticating";
+import { CommentDoc, CommentThread, FormattedComment } from "./concepts/commenting";
+import { CompetitionDoc, CompetitionNotice, CompetitionStatus, JoinPolicy } from "./concepts/competing";
+import { BadValuesError, NotAllowedError, NotFoundError } from "./concepts/errors";
+import { ImportRow } from "./concepts/importing";
+import { NotificationDoc, NotificationType } from "./concepts/notifying";
+import { PostOptions, PostViewer } from "./concepts/posting";
+import { CaseResolution } from "./concepts/reporting";
 import { SessionDoc } from "./concepts/sessioning";
-import { SortOptions } from "./concepts/tracking";
+import { DataDoc, DataPeriod, DEFAULT_METRIC, DuplicatePolicy, MetricDirection, MetricDoc, MetricValueType, SortOptions } from "./concepts/tracking";
 import Responses from "./responses";
+import { renewSeries, sendCompetitionNotices } from "./scheduler";
+import { getStandings, isLowerBetter } from "./standings";
 
 import { z } from "zod";
 
@@ -23,8 +34,8 @@ class Routes {
   }
 
   @Router.get("/users")
-  async getUsers() {
-    return await Authing.getUsers();
+  async getUsers(cursor?: string, limit?: string) {
+    return await Authing.getUsers(undefined, toPage(cursor, limit));
   }
 
   @Router.get("/users/:username")
@@ -45,22 +56,197 @@ class Routes {
     return await Authing.updateUsername(user, username);
   }
 
+  /**
+   * Set the IANA timezone, e.g. `Europe/Paris`, whose calendar days the user's data is logged and queried in.
+   */
+  @Router.patch("/users/timezone")
+  async updateTimezone(session: SessionDoc, timezone: string) {
+    const user = Sessioning.getUser(session);
+    return await Authing.updateTimezone(user, timezone);
+  }
+
   @Router.patch("/users/password")
   async updatePassword(session: SessionDoc, currentPassword: string, newPassword: string) {
     const user = Sessioning.getUser(session);
     return Authing.updatePassword(user, currentPassword, newPassword);
   }
 
+  /**
+   * Delete the user's account along with everything it owns across concepts.
+   * @param session The session of the user
+   * @param [mode] `purge` (default) deletes the user's posts, comments and data, while `anonymize` keeps them
+   * under an anonymous author that no account owns
+   * @param [competitions] `transfer` (default) hands each owned competition to its first admin or else its
+   * longest-standing other member, closing it if there is none, while `close` deletes every owned competition
+   */
   @Router.delete("/users")
-  async deleteUser(session: SessionDoc) {
+  async deleteUser(session: SessionDoc, mode?: string, competitions?: string) {
     const user = Sessioning.getUser(session);
+    const deletionMode = mode ?? "purge";
+    const competitionMode = competitions ?? "transfer";
+    if (deletionMode !== "purge" && deletionMode !== "anonymize") throw new BadValuesError("Deletion mode must be either purge or anonymize!");
+    if (competitionMode !== "transfer" && competitionMode !== "close") throw new BadValuesError("Competition handling must be either transfer or close!");
+
+    // The items deleted with the user, whose reports go with them
+    const deleted: ObjectId[] = [];
+    for (const competition of await Competing.getByOwner(user)) {
+      if (competitionMode === "transfer") {
+        await handOffCompetition(competition, user);
+      } else {
+        await closeCompetition(competition._id);
+        deleted.push(competition._id);
+      }
+    }
+
+    const anonymous = new ObjectId();
+    if (deletionMode === "purge") {
+      const [posts, comments, data] = await Promise.all([Posting.getByAuthor(user), Commenting.getByAuthor(user), Tracking.getByUser(user)]);
+      await Reacting.deleteByItems([...posts, ...comments, ...data].map((item) => item._id));
+      await Disputing.removeItems(data.map((d) => d._id));
+      // Comments by others on the user's posts are deleted along with the posts
+      const postComments = await removeCommentsOn(posts.map((post) => post._id));
+      await Promise.all([Posting.deleteByAuthor(user), Commenting.deleteByAuthor(user), Tracking.deleteByUser(user)]);
+      deleted.push(...[...posts, ...comments, ...data].map((item) => item._id), ...postComments);
+      // Metrics still ranking a handed-off competition are kept for it, with no owner to use them
+      const metrics = await Tracking.getOwnMetrics(user);
+      const usedMetrics = (await Promise.all(metrics.map(async (metric) => ((await Competing.usesMetric(metric._id)) ? [metric._id] : [])))).flat();
+      await Tracking.deleteMetricsByOwner(user, usedMetrics);
+    } else {
+      await Promise.all([Posting.reassignAuthor(user, anonymous), Commenting.reassignAuthor(user, anonymous), Tracking.reassignUser(user, anonymous)]);
+    }
+    await Tracking.reassignMetricOwner(user, anonymous);
+    await Promise.all([
+      Friending.removeUser(user),
+      Joining.leaveAll(user),
+      Teaming.removeUser(user),
+      Recurring.stopByOwner(user),
+      Competing.removeAdminFromAll(user),
+      Linking.deleteByUser(user),
+      Reacting.deleteByUser(user),
+      Notifying.deleteByUser(user),
+      Reporting.deleteByReporter(user),
+      Reporting.deleteByItems(deleted),
+      Blocking.removeUser(user),
+    ]);
+
+    const userDeletion = await Authing.delete(user);
     Sessioning.end(session);
-    return await Authing.delete(user);
+    return userDeletion;
+  }
+
+  /**
+   * Export everything the user has put into the app as a single archive.
+   * @param session The session of the user
+   * @returns The user's profile, posts, comments, metrics, tracked data (also as CSV), friendships,
+   * memberships, links and reactions
+   */
+  @Router.get("/users/me/export")
+  async exportUser(session: SessionDoc) {
+    const user = Sessioning.getUser(session);
+    const [profile, posts, comments, metrics, data, friends, requests, memberships, links, reactions] = await Promise.all([
+      Authing.getUserById(user),
+      Posting.getByAuthor(user),
+      Commenting.getByAuthor(user),
+      Tracking.getOwnMetrics(user),
+      Tracking.getByUser(user),
+      Friending.getFriends(user),
+      Friending.getRequests(user),
+      Joining.getUserMemberships(user),
+      Linking.getByUser(user),
+      Reacting.getByUser(user),
+    ]);
+    return {
+      exportedAt: new Date(),
+      profile,
+      posts: await Responses.posts(posts),
+      comments: await Responses.comments(comments),
+      metrics,
+      data: await Responses.data(data),
+      dataCsv: Responses.dataCsv(data, links),
+      friends: await Authing.idsToUsernames(friends),
+      friendRequests: await Responses.friendRequests(requests),
+      memberships: await Responses.memberships(memberships),
+      links: await Responses.links(links),
+      reactions,
+    };
+  }
+
+  /**
+   * Restore the tracked score history of an exported archive into the user's account,
+   * which must not have any tracked data yet. Entries that were linked in the archive are linked again.
+   * The archive's metrics are created for the user, unless the user already has a metric of the same name.
+   * Nothing is restored unless every entry follows the rules of its metric.
+   * @param session The session of the user
+   * @param archive An archive produced by `GET /users/me/export`
+   * @returns The restored data
+   */
+  @Router.post("/users/me/import")
+  async importUser(session: SessionDoc, archive: unknown) {
+    const user = Sessioning.getUser(session);
+    const parsed = z
+      .object({
+        data: z.array(z.object({ _id: z.string(), date: z.coerce.date(), score: z.number(), metric: z.string().optional() })),
+        links: z.array(z.object({ item: z.string() })).default([]),
+        metrics: z
+          .array(
+            z.object({
+              _id: z.string(),
+              name: z.string(),
+              unit: z.string().optional(),
+              direction: z.nativeEnum(MetricDirection),
+              valueType: z.nativeEnum(MetricValueType),
+              rules: z
+                .object({ min: z.number().optional(), max: z.number().optional(), maxDaysBack: z.number().optional(), allowFuture: z.boolean().optional(), perDay: z.nativeEnum(DuplicatePolicy) })
+                .optional(),
+            }),
+          )
+          .default([]),
+      })
+      .safeParse(archive);
+    if (!parsed.success) throw new BadValuesError("Archive must contain the data and links of an export!");
+    if ((await Tracking.getByUser(user)).length > 0) throw new NotAllowedError("Score history can only be imported into an account without tracked data!");
+
+    const timezone = await Authing.getTimezone(user);
+    // The archive's metrics are checked against before they exist, so that a failing entry leaves none behind
+    const ownMetrics = await Tracking.getOwnMetrics(user);
+    const archivedMetrics = new Map<string, MetricDoc>(
+      parsed.data.metrics.map((metric) => [
+        metric._id,
+        ownMetrics.find((own) => own.name === metric.name) ?? { ...metric, _id: new ObjectId(), owner: user, dateCreated: new Date(), dateUpdated: new Date() },
+      ]),
+    );
+    const entries = await Promise.all(
+      parsed.data.data.map(async (entry) => ({
+        ...entry,
+        metric: entry.metric ? (archivedMetrics.get(entry.metric) ?? (await Tracking.resolveMetric(entry.metric, user))) : await Tracking.getMetric(),
+      })),
+    );
+    await Tracking.assertCanLogAll(user, entries, timezone);
+
+    const createdMetrics = new Map<string, ObjectId>();
+    for (const metric of archivedMetrics.values()) {
+      if (ownMetrics.includes(metric)) continue;
+      const creation = await Tracking.createMetric(user, metric.name, metric.direction, metric.valueType, metric.unit, metric.rules);
+      createdMetrics.set(metric._id.toString(), creation.metric._id);
+    }
+    const linkedItems = new Set(parsed.data.links.map((link) => link.item));
+    const restored = [];
+    for (const entry of entries) {
+      const data = await Tracking.log(user, entry.date, entry.score, createdMetrics.get(entry.metric._id.toString()) ?? entry.metric._id, timezone);
+      if (linkedItems.has(entry._id)) await Linking.link(user, data.data._id, "data");
+      restored.push(data.data);
+    }
+    return { msg: `Successfully imported ${restored.length} data entries!`, data: await Responses.data(restored) };
   }
 
+  /**
+   * Log in. Users whose ids are listed in the `ADMIN_USER_IDS` environment variable become admins when they log in.
+   * Ids are used rather than usernames, which can be registered by anyone or given up by renaming.
+   */
   @Router.post("/login")
   async logIn(session: SessionDoc, username: string, password: string) {
     const u = await Authing.authenticate(username, password);
+    if (getAdminUserIds().includes(u._id.toString())) await Authing.setRole(u._id, Role.ADMIN);
     Sessioning.start(session, u._id);
     return { msg: "Logged in!" };
   }
@@ -72,9 +258,10 @@ class Routes {
   }
 
   @Router.get("/friends")
-  async getFriends(session: SessionDoc) {
+  async getFriends(session: SessionDoc, cursor?: string, limit?: string) {
     const user = Sessioning.getUser(session);
-    return await Authing.idsToUsernames(await Friending.getFriends(user));
+    const friends = await Friending.getFriendsPage(user, toPage(cursor, limit));
+    return { ...friends, items: await Authing.idsToUsernames(friends.items) };
   }
 
   @Router.delete("/friends/:friend")
@@ -85,16 +272,20 @@ class Routes {
   }
 
   @Router.get("/friend/requests")
-  async getRequests(session: SessionDoc) {
+  async getRequests(session: SessionDoc, cursor?: string, limit?: string) {
     const user = Sessioning.getUser(session);
-    return await Responses.friendRequests(await Friending.getRequests(user));
+    const requests = await Friending.getRequestsPage(user, toPage(cursor, limit));
+    return { ...requests, items: await Responses.friendRequests(requests.items) };
   }
 
   @Router.post("/friend/requests/:to")
   async sendFriendRequest(session: SessionDoc, to: string) {
     const user = Sessioning.getUser(session);
     const toOid = (await Authing.getUserByUsername(to))._id;
-    return await Friending.sendRequest(user, toOid);
+    await Blocking.assertNotBlocked(user, toOid);
+    const requestCreation = await Friending.sendRequest(user, toOid);
+    await notify([toOid], NotificationType.FRIEND_REQUEST, user);
+    return requestCreation;
   }
 
   @Router.delete("/friend/requests/:to")
@@ -108,7 +299,9 @@ class Routes {
   async acceptFriendRequest(session: SessionDoc, from: string) {
     const user = Sessioning.getUser(session);
     const fromOid = (await Authing.getUserByUsername(from))._id;
-    return await Friending.acceptRequest(fromOid, user);
+    const acceptance = await Friending.acceptRequest(fromOid, user);
+    await notify([fromOid], NotificationType.FRIEND_ACCEPTED, user);
+    return acceptance;
   }
 
   @Router.put("/friend/reject/:from")
@@ -119,32 +312,112 @@ class Routes {
   }
 
   /**
-   * Get all posts, redacting all unlinked authors that are not the user.
+   * Get a page of the users that the user blocked or muted, newest first.
+   * Optionally, filter by `kind`: "block" or "mute".
+   */
+  @Router.get("/blocks")
+  @Router.validate(z.object({ kind: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getBlocks(session: SessionDoc, kind?: string, cursor?: string, limit?: string) {
+    const user = Sessioning.getUser(session);
+    const blocks = await Blocking.getBlocks(user, Blocking.parseKind(kind), toPage(cursor, limit));
+    return { ...blocks, items: await Responses.blocks(blocks.items) };
+  }
+
+  /**
+   * Block a user: unfriends them, cancels pending friend requests between the two,
+   * and hides each user's content and activity from the other.
+   */
+  @Router.post("/blocks/:username")
+  async blockUser(session: SessionDoc, username: string) {
+    const user = Sessioning.getUser(session);
+    const target = (await Authing.getUserByUsername(username))._id;
+    const blocking = await Blocking.block(user, target);
+    await Friending.removeBetween(user, target);
+    return blocking;
+  }
+
+  @Router.delete("/blocks/:username")
+  async unblockUser(session: SessionDoc, username: string) {
+    const user = Sessioning.getUser(session);
+    const target = (await Authing.getUserByUsername(username))._id;
+    return await Blocking.unblock(user, target);
+  }
+
+  /**
+   * Mute a user: hides their content and activity from the user without them knowing.
+   */
+  @Router.post("/mutes/:username")
+  async muteUser(session: SessionDoc, username: string) {
+    const user = Sessioning.getUser(session);
+    const target = (await Authing.getUserByUsername(username))._id;
+    return await Blocking.mute(user, target);
+  }
+
+  @Router.delete("/mutes/:username")
+  async unmuteUser(session: SessionDoc, username: string) {
+    const user = Sessioning.getUser(session);
+    const target = (await Authing.getUserByUsername(username))._id;
+    return await Blocking.unmute(user, target);
+  }
+
+  /**
+   * Get a page of posts the user can see, newest first, redacting all unlinked authors that are not the user.
    * Optionally, filter by `author`.
    * @param session The session of the user
    * @param [author] The username of the user to filter by. Also filter by existing `author`-post
    * links if user is not `author`.
-   * @returns An array of posts, filtered and redacted if necessary
+   * @param [cursor] The `nextCursor` of the previous page
+   * @param [limit] The maximum number of posts in the page
+   * @returns A page of posts, filtered and redacted if necessary, and the cursor of the next page
    */
   @Router.get("/posts")
-  // @Router.validate(z.object({ author: z.string().optional() }))
-  async getPosts(session: SessionDoc, author?: string) {
+  // @Router.validate(z.object({ author: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getPosts(session: SessionDoc, author?: string, cursor?: string, limit?: string) {
     const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
+    const viewer = await getPostViewer(user);
 
     if (author) {
       const authorOid = (await Authing.getUserByUsername(author))._id;
-      const authorPosts = await Posting.getByAuthor(authorOid);
-      const authorPostsFormatted = await Responses.posts(authorPosts);
-      return user && user.equals(authorOid)
-        ? authorPostsFormatted
-        : (await Promise.all(authorPostsFormatted.map(async (post) => ((await Linking.hasLink(authorOid, post._id)) ? post : null)))).filter((p) => p !== null);
+      const authorPosts = await Posting.getPosts(viewer, toPage(cursor, limit), authorOid);
+      const authorPostsFormatted = await Responses.posts(authorPosts.items, user);
+      return {
+        ...authorPosts,
+        items:
+          user && user.equals(authorOid)
+            ? authorPostsFormatted
+            : (await Promise.all(authorPostsFormatted.map(async (post) => ((await Linking.hasLink(authorOid, post._id)) ? post : null)))).filter((p) => p !== null),
+      };
     }
 
-    const allPosts = await Posting.getPosts();
-    const allPostsFormatted = await Responses.posts(allPosts);
-    return await Promise.all(
-      allPostsFormatted.map(async (post, i) => ((user && user.equals(allPosts[i].author)) || (await Linking.hasLink(allPosts[i].author, post._id)) ? post : Posting.redactAuthor(post))),
-    );
+    const allPosts = await Posting.getPosts(viewer, toPage(cursor, limit));
+    const allPostsFormatted = await Responses.posts(allPosts.items, user);
+    return {
+      ...allPosts,
+      items: await Promise.all(
+        allPostsFormatted.map(async (post, i) => ((user && user.equals(allPosts.items[i].author)) || (await Linking.hasLink(allPosts.items[i].author, post._id)) ? post : Posting.redactAuthor(post))),
+      ),
+    };
+  }
+
+  /**
+   * Get a page of the user's feed: posts by the user and their friends, newest first,
+   * redacting all unlinked authors that are not the user.
+   * @param session The session of the user
+   * @param [cursor] The `nextCursor` of the previous page
+   * @param [limit] The maximum number of posts in the page
+   * @returns A page of posts, redacted if necessary, and the cursor of the next page
+   */
+  @Router.get("/feed")
+  async getFeed(session: SessionDoc, cursor?: string, limit?: string) {
+    const user = Sessioning.getUser(session);
+    const posts = await Posting.getFeed({ ...(await getPostViewer(user)), user }, toPage(cursor, limit));
+    const postsFormatted = await Responses.posts(posts.items, user);
+    return {
+      ...posts,
+      items: await Promise.all(
+        postsFormatted.map(async (post, i) => (user.equals(posts.items[i].author) || (await Linking.hasLink(posts.items[i].author, post._id)) ? post : Posting.redactAuthor(post))),
+      ),
+    };
   }
 
   @Router.post("/posts")
@@ -152,7 +425,7 @@ class Routes {
     const user = Sessioning.getUser(session);
     const postCreation = await Posting.create(user, content, options);
     if (isLinked === "true") {
-      const linkCreation = await Linking.link(user, postCreation.post._id);
+      const linkCreation = await Linking.link(user, postCreation.post._id, "posts");
       return { msg: `${postCreation.msg}\n${linkCreation.msg}`, post: await Responses.post(postCreation.post), link: await Responses.link(linkCreation.link) };
     }
     return { msg: postCreation.msg, post: await Responses.post(postCreation.post) };
@@ -173,48 +446,83 @@ class Routes {
     await Posting.assertUserIsAuthor(oid, user);
     const postDeletion = await Posting.delete(oid);
     const linkDeletion = await Linking.unlink(user, oid);
+    await removeCommentsOn([oid]);
+    await Reacting.deleteByItems([oid]);
     return { msg: `${postDeletion.msg}\n${linkDeletion.msg}` };
   }
 
   /**
-   * Get all comments, redacting all unlinked authors that are not the user.
+   * Get the comments on a post the user can see as threads of replies, oldest first,
+   * redacting all unlinked authors that are not the user and the authors of deleted comments.
+   *
+   * @param id The id of the post
+   * @param [depth] How many levels of replies to include, 3 by default
+   * @returns The top-level comments of the post, each with its reply count and nested replies
+   */
+  @Router.get("/posts/:id/comments")
+  async getPostComments(session: SessionDoc, id: string, depth?: string) {
+    const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
+    const post = new ObjectId(id);
+    const viewer = await getPostViewer(user);
+    await Posting.assertViewerCanSee(post, viewer);
+    return await formatThreads(await Commenting.getThreads(post, depth === undefined ? undefined : Number(depth), viewer.ignored), user);
+  }
+
+  /**
+   * Get a page of comments on posts the user can see, newest first, redacting all unlinked authors that are not the user.
    * Optionally, filter by `author`.
    * @param session The session of the user
    * @param [author] The username of the user to filter by. Also filter by existing `author`-comment
    * links if user is not `author`.
-   * @returns An array of comments, filtered and redacted if necessary
+   * @param [cursor] The `nextCursor` of the previous page
+   * @param [limit] The maximum number of comments in the page
+   * @returns A page of comments, filtered and redacted if necessary, and the cursor of the next page
    */
   @Router.get("/comments")
-  // @Router.validate(z.object({ author: z.string().optional() }))
-  async getComments(session: SessionDoc, author?: string) {
+  // @Router.validate(z.object({ author: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getComments(session: SessionDoc, author?: string, cursor?: string, limit?: string) {
     const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
+    const viewer = await getPostViewer(user);
+    const visiblePosts = { from: Posting.posts.name, filter: Posting.visibleTo(viewer) };
 
     if (author) {
       const authorOid = (await Authing.getUserByUsername(author))._id;
-      const authorComments = await Commenting.getByAuthor(authorOid);
-      const authorCommentsFormatted = await Responses.comments(authorComments);
-      return user && user.equals(authorOid)
-        ? authorCommentsFormatted
-        : (await Promise.all(authorCommentsFormatted.map(async (comment) => ((await Linking.hasLink(authorOid, comment._id)) ? comment : null)))).filter((c) => c !== null);
+      const authorComments = await Commenting.getComments(toPage(cursor, limit), authorOid, viewer.ignored, visiblePosts);
+      const authorCommentsFormatted = await Responses.comments(authorComments.items, user);
+      return {
+        ...authorComments,
+        items:
+          user && user.equals(authorOid)
+            ? authorCommentsFormatted
+            : (await Promise.all(authorCommentsFormatted.map(async (comment) => ((await Linking.hasLink(authorOid, comment._id)) ? comment : null)))).filter((c) => c !== null),
+      };
     }
 
-    const allComments = await Commenting.getComments();
-    const allCommentsFormatted = await Responses.comments(allComments);
-    return await Promise.all(
-      allCommentsFormatted.map(async (comment, i) =>
-        (user && user.equals(allComments[i].author)) || (await Linking.hasLink(allComments[i].author, comment._id)) ? comment : Commenting.redactAuthor(comment),
+    const allComments = await Commenting.getComments(toPage(cursor, limit), undefined, viewer.ignored, visiblePosts);
+    const allCommentsFormatted = await Responses.comments(allComments.items, user);
+    return {
+      ...allComments,
+      items: await Promise.all(
+        allCommentsFormatted.map(async (comment, i) =>
+          (user && user.equals(allComments.items[i].author)) || (await Linking.hasLink(allComments.items[i].author, comment._id)) ? comment : Commenting.redactAuthor(comment),
+        ),
       ),
-    );
+    };
   }
 
+  /**
+   * Comment on a post, optionally in reply to another comment on the same post.
+   * The author of the replied-to comment, or else the author of the post, is notified.
+   */
   @Router.post("/comments")
-  async createComment(session: SessionDoc, isLinked: string, postId: string, content: string) {
+  async createComment(session: SessionDoc, isLinked: string, postId: string, content: string, parentId?: string) {
     const post = new ObjectId(postId);
-    await Posting.assertPostExists(post);
     const user = Sessioning.getUser(session);
-    const commentCreation = await Commenting.create(user, post, content);
+    await Posting.assertViewerCanSee(post, await getPostViewer(user));
+    const commentCreation = await Commenting.create(user, post, content, parentId ? new ObjectId(parentId) : undefined);
+    await notifyCommentRecipients(commentCreation.comment);
     if (isLinked === "true") {
-      const linkCreation = await Linking.link(user, commentCreation.comment._id);
+      const linkCreation = await Linking.link(user, commentCreation.comment._id, "comments");
       return { msg: `${commentCreation.msg}\n${linkCreation.msg}`, comment: await Responses.comment(commentCreation.comment), link: await Responses.link(linkCreation.link) };
     }
     return { msg: commentCreation.msg, comment: await Responses.comment(commentCreation.comment) };
@@ -235,11 +543,62 @@ class Routes {
     await Commenting.assertUserIsAuthor(oid, user);
     const commentDeletion = await Commenting.delete(oid);
     const linkDeletion = await Linking.unlink(user, oid);
+    await Reacting.deleteByItems([oid]);
     return { msg: `${commentDeletion.msg}\n${linkDeletion.msg}` };
   }
 
   /**
-   * Get all data, redacting all unlinked users that are not the user. Optionally,
+   * Get the metrics the user can log data with: the system metrics, then the user's own.
+   */
+  @Router.get("/metrics")
+  async getMetrics(session: SessionDoc) {
+    const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
+    return await Tracking.getMetrics(user);
+  }
+
+  /**
+   * Define a metric to log data with.
+   * @param session The session of the user
+   * @param name The name of the metric, e.g. `5K`
+   * @param direction `higher` or `lower`, whichever is better
+   * @param valueType `integer`, `decimal` or `duration`
+   * @param [unit] The unit of the values, e.g. `seconds`
+   * @param [min] The lowest score allowed
+   * @param [max] The highest score allowed
+   * @param [maxDaysBack] How many days in the past entries can be dated
+   * @param [allowFuture] `true` to allow entries dated in the future
+   * @param [perDay] `allow`, `reject` or `replace` a second entry of the same day
+   */
+  @Router.post("/metrics")
+  async createMetric(session: SessionDoc, name: string, direction: string, valueType: string, unit?: string, min?: string, max?: string, maxDaysBack?: string, allowFuture?: string, perDay?: string) {
+    const user = Sessioning.getUser(session);
+    const rules = Tracking.parseRules(min, max, maxDaysBack, allowFuture, perDay);
+    return await Tracking.createMetric(user, name, direction, valueType, unit, rules);
+  }
+
+  /**
+   * Replace the rules that new entries of a metric of the user must follow. See {@link createMetric} for the rules.
+   */
+  @Router.put("/metrics/:id/rules")
+  async updateMetricRules(session: SessionDoc, id: string, min?: string, max?: string, maxDaysBack?: string, allowFuture?: string, perDay?: string) {
+    const user = Sessioning.getUser(session);
+    const rules = Tracking.parseRules(min, max, maxDaysBack, allowFuture, perDay);
+    return await Tracking.updateRules(new ObjectId(id), user, rules);
+  }
+
+  /**
+   * Delete a metric of the user that no data or competition uses.
+   */
+  @Router.delete("/metrics/:id")
+  async deleteMetric(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    const oid = new ObjectId(id);
+    if (await Competing.usesMetric(oid)) throw new NotAllowedError("Metric is still used by a competition!");
+    return await Tracking.deleteMetric(oid, user);
+  }
+
+  /**
+   * Get a page of data, redacting all unlinked users that are not the user. Optionally,
    * filter by `username`, `date`, or `dateRange`. Only one of `date` or `dateRange`
    * should be specified. Optionally, sort by `sort`.
    * @param session The session of the user
@@ -248,55 +607,146 @@ class Routes {
    * @param [date] The date
    * @param [dateRange] The date range
    * @param [sort] The field to sort by (`score` or `date`)
-   * @returns An array of data, filtered and redacted if necessary
+   * @param [metric] The name or id of the metric to filter by
+   * @param [cursor] The `nextCursor` of the previous page
+   * @param [limit] The maximum number of data in the page
+   * @returns A page of data, filtered and redacted if necessary, and the cursor of the next page
    */
   @Router.get("/data")
-  // @Router.validate(z.object({ username: z.string().optional(), date: z.string().optional(), dateRange: z.string().optional(), sort: z.string().optional() }))
-  async getData(session: SessionDoc, username?: string, date?: string, dateRange?: string, sort?: string) {
+  // @Router.validate(z.object({ username: z.string().optional(), date: z.string().optional(), dateRange: z.string().optional(), sort: z.string().optional(), metric: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getData(session: SessionDoc, username?: string, date?: string, dateRange?: string, sort?: string, metric?: string, cursor?: string, limit?: string) {
     const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
     const usernameOid = username ? (await Authing.getUserByUsername(username))._id : undefined;
-    const dateObj = date ? new Date(date) : undefined;
-    const dateRangeArr = dateRange ? dateRange.split("_") : undefined;
-    const dateRangeParsed = dateRangeArr ? ([new Date(dateRangeArr[0]), new Date(dateRangeArr[1])] as [Date, Date]) : undefined;
+    const period = parsePeriod(date, dateRange, user ? await Authing.getTimezone(user) : undefined);
     const sortParsed = sort === "score" ? SortOptions.SCORE : sort === "date" ? SortOptions.DATE : undefined;
-    const allData = await Tracking.getData(usernameOid, dateObj, dateRangeParsed, sortParsed);
-    const allDataFormatted = await Responses.data(allData);
-    return await Promise.all(allDataFormatted.map(async (d, i) => ((user && user.equals(allData[i].user)) || (await Linking.hasLink(allData[i]._id, d._id)) ? d : Tracking.redactUser(d))));
+    const ignored = user ? await Blocking.getIgnored(user) : [];
+    // Metrics are looked up among those of the user whose data is read
+    const metricOid = metric ? (await Tracking.resolveMetric(metric, usernameOid ?? user))._id : undefined;
+    const allData = await Tracking.getData(usernameOid, period, sortParsed, toPage(cursor, limit), ignored, metricOid);
+    const allDataFormatted = await Responses.data(allData.items, user);
+    return {
+      ...allData,
+      items: await Promise.all(
+        allDataFormatted.map(async (d, i) => ((user && user.equals(allData.items[i].user)) || (await Linking.hasLink(allData.items[i].user, d._id)) ? d : Tracking.redactUser(d))),
+      ),
+    };
   }
 
   /**
-   * Logs a user's score data and, if the user is part of any competitions, inputs the data into those competitions.
+   * Get the statistics of the user's data of one metric: count, total, mean, median, best and worst scores,
+   * standard deviation, current and longest daily logging streaks, and weekly and monthly rollups.
+   * @param session The session of the user
+   * @param [metric] The name or id of the metric, by default the default metric
+   * @param [dateRange] Only consider data within this range, given as `start_end` of calendar days or dates
+   */
+  @Router.get("/data/stats")
+  async getDataStats(session: SessionDoc, metric?: string, dateRange?: string) {
+    const user = Sessioning.getUser(session);
+    const metricDoc = metric ? await Tracking.resolveMetric(metric, user) : await Tracking.getMetric();
+    const timezone = await Authing.getTimezone(user);
+    return await Tracking.getStats(user, metricDoc, parsePeriod(undefined, dateRange, timezone), new Date(), timezone);
+  }
+
+  /**
+   * Logs a user's score data. The data counts toward every competition the user is a member of
+   * whose date window contains the data's date.
    * If `isLinked === "true"`, then the data is also linked to the user.
    * @param session The session of the user
    * @param isLinked Whether the data should be linked to the user. If `"true"`, then the data is linked.
-   * @param date The date of the data
-   * @param score The user's score
+   * @param date The date of the data, either a calendar day of the user's timezone or a full date and time
+   * @param score The user's score, as a value of the metric
+   * @param [metric] The name or id of what the score measures, by default the default metric
    * @returns The newly created data, with a message indicating whether the data was successfully logged and whether the data was linked.
    */
   @Router.post("/data")
-  async logData(session: SessionDoc, isLinked: string, date: string, score: string) {
+  async logData(session: SessionDoc, isLinked: string, date: string, score: string, metric?: string) {
     const user = Sessioning.getUser(session);
-    const data = await Tracking.log(user, new Date(date), parseInt(score));
-    // Input data to any competitions that the user is a part of
-    await Joining.getUserMemberships(user).then((memberships) => {
-      memberships.forEach(async (membership) => await Competing.inputData(membership.group, data.data._id));
-    });
+    const metricDoc = metric ? await Tracking.resolveMetric(metric, user) : await Tracking.getMetric();
+    const value = Tracking.parseValue(metricDoc, score);
+    const timezone = await Authing.getTimezone(user);
+    const data = await withRankNotifications(user, () => Tracking.log(user, parseDate(date, timezone), value, metricDoc._id, timezone));
+    await flagIfOutlier(data.data);
 
     if (isLinked === "true") {
-      const linkCreation = await Linking.link(user, data.data._id);
-      return { msg: `${data.msg}\n${linkCreation.msg}\nAll competition data successfully logged!`, data: await Responses.d(data.data), link: await Responses.link(linkCreation.link) };
+      const linkCreation = await Linking.link(user, data.data._id, "data");
+      return { msg: `${data.msg}\n${linkCreation.msg}`, data: await Responses.d(data.data), link: await Responses.link(linkCreation.link) };
     }
-    return { msg: `${data.msg}\nAll competition data successfully logged!`, data: await Responses.d(data.data) };
+    return { msg: data.msg, data: await Responses.d(data.data) };
   }
 
+  /**
+   * Update a user's score data. Since competition standings are worked out from tracked data,
+   * the change is reflected in every competition the data counts toward.
+   */
   @Router.patch("/data/:id")
   async updateData(session: SessionDoc, id: string, date?: string, score?: string) {
     const user = Sessioning.getUser(session);
     const oid = new ObjectId(id);
     await Tracking.assertUserIsOwner(oid, user);
-    const dateObj = date ? new Date(date) : undefined;
-    const scoreParsed = score ? parseInt(score) : undefined;
-    return await Tracking.update(oid, dateObj, scoreParsed);
+    const timezone = await Authing.getTimezone(user);
+    const dateObj = date ? parseDate(date, timezone) : undefined;
+    const [data] = await Tracking.getByIds([oid]);
+    const scoreParsed = score ? Tracking.parseValue(await Tracking.getMetric(data.metric), score) : undefined;
+    const update = await withRankNotifications(user, () => Tracking.update(oid, dateObj, scoreParsed, timezone));
+    const [updated] = await Tracking.getByIds([oid]);
+    await flagIfOutlier(updated);
+    return update;
+  }
+
+  /**
+   * Get the formats that scores can be imported from.
+   */
+  @Router.get("/data/import/formats")
+  async getImportFormats() {
+    return Importing.getFormats();
+  }
+
+  /**
+   * Import scores from CSV or game share text. A dry run only previews what each row would log; otherwise every valid row
+   * is logged like `POST /data`, counting toward the user's competitions, while invalid rows are skipped.
+   * @param session The session of the user
+   * @param format The format of `text`, one of `GET /data/import/formats`
+   * @param text The contents of the CSV file or the pasted share text
+   * @param [metric] The name or id of the metric of rows that don't name one, by default the default metric
+   * @param [dryRun] `"true"` to only preview the rows
+   * @param [isLinked] `"true"` to also link the imported data to the user
+   * @returns Every row with its parsed date, score and metric, the logged data if it was imported, or why it can't be
+   */
+  @Router.post("/data/import")
+  async importData(session: SessionDoc, format: string, text: string, metric?: string, dryRun?: string, isLinked?: string) {
+    const user = Sessioning.getUser(session);
+    const timezone = await Authing.getTimezone(user);
+    const defaultMetric = metric ? await Tracking.resolveMetric(metric, user) : await Tracking.getMetric();
+    // Rows are checked in order, like they are logged, so that same-day duplicates within the text are caught
+    const batch = new Set<string>();
+    const rows: Awaited<ReturnType<typeof checkImportRow>>[] = [];
+    for (const row of Importing.parse(format, text)) rows.push(await checkImportRow(row, user, defaultMetric, timezone, batch));
+    if (dryRun === "true") {
+      const valid = rows.filter((row) => !row.error).length;
+      return { msg: `${valid} of ${rows.length} rows can be imported.`, rows: rows.map(formatImportRow) };
+    }
+
+    const results = await withRankNotifications(user, async () => {
+      const outcomes = [];
+      for (const row of rows) {
+        if (row.error !== undefined) {
+          outcomes.push(formatImportRow(row));
+          continue;
+        }
+        try {
+          const logged = await Tracking.log(user, row.date, row.score, row.metric._id, timezone);
+          if (isLinked === "true" && !(await Linking.hasLink(user, logged.data._id))) await Linking.link(user, logged.data._id, "data");
+          await flagIfOutlier(logged.data);
+          outcomes.push({ ...formatImportRow(row), data: await Responses.d(logged.data) });
+        } catch (e) {
+          if (!(e instanceof FormattableError)) throw e;
+          outcomes.push({ ...formatImportRow(row), error: e.message });
+        }
+      }
+      return outcomes;
+    });
+    const imported = results.filter((result) => "data" in result).length;
+    return { msg: `Successfully imported ${imported} of ${rows.length} rows!`, rows: results };
   }
 
   @Router.delete("/data/:id")
@@ -304,61 +754,131 @@ class Routes {
     const user = Sessioning.getUser(session);
     const oid = new ObjectId(id);
     await Tracking.assertUserIsOwner(oid, user);
-    const dataDeletion = await Tracking.delete(oid);
+    const dataDeletion = await withRankNotifications(user, () => Tracking.delete(oid));
     const linkDeletion = await Linking.unlink(user, oid);
+    await Promise.all([Reacting.deleteByItems([oid]), Disputing.removeItems([oid])]);
     return { msg: `${dataDeletion.msg}\n${linkDeletion.msg}` };
   }
 
   /**
-   * Get all competitions, redacting all unlinked owners that are not the user.
-   * Optionally, filter by competitions that `username` is linked to.
+   * React to a post, comment or data entry that the user can see.
+   * @param session The session of the user
+   * @param itemId The id of the post, comment or data entry
+   * @param reaction `like` or one of the supported emoji
+   */
+  @Router.post("/reactions")
+  async react(session: SessionDoc, itemId: string, reaction: string) {
+    const user = Sessioning.getUser(session);
+    const item = new ObjectId(itemId);
+    await assertCanReact(item, user);
+    return await Reacting.react(user, item, reaction);
+  }
+
+  @Router.delete("/reactions/:itemId")
+  async unreact(session: SessionDoc, itemId: string, reaction: string) {
+    const user = Sessioning.getUser(session);
+    return await Reacting.unreact(user, new ObjectId(itemId), reaction);
+  }
+
+  /**
+   * Get a page of the user's notifications, newest first.
+   * @param session The session of the user
+   * @param [unread] If `"true"`, only list unread notifications
+   * @param [cursor] The `nextCursor` of the previous page
+   * @param [limit] The maximum number of notifications in the page
+   * @returns A page of notifications, the cursor of the next page and the number of unread notifications
+   */
+  @Router.get("/notifications")
+  async getNotifications(session: SessionDoc, unread?: string, cursor?: string, limit?: string) {
+    const user = Sessioning.getUser(session);
+    const notifications = await Notifying.getNotifications(user, unread === "true", toPage(cursor, limit));
+    return { ...notifications, items: await Responses.notifications(notifications.items), unreadCount: await Notifying.countUnread(user) };
+  }
+
+  @Router.get("/notifications/unread")
+  async countUnreadNotifications(session: SessionDoc) {
+    const user = Sessioning.getUser(session);
+    return { unreadCount: await Notifying.countUnread(user) };
+  }
+
+  @Router.patch("/notifications/read")
+  async markAllNotificationsRead(session: SessionDoc) {
+    const user = Sessioning.getUser(session);
+    return await Notifying.markAllRead(user);
+  }
+
+  @Router.patch("/notifications/:id/read")
+  async markNotificationRead(session: SessionDoc, id: string) {
+    const user = Sessioning.getUser(session);
+    return await Notifying.markRead(new ObjectId(id), user);
+  }
+
+  /**
+   * Get a page of competitions that have not ended yet, ending soonest first, redacting all unlinked owners
+   * that are not the user. Optionally, filter by competitions that `username` is linked to.
    * @param session The session of the user
    * @param [username] The username of the user to filter by. Also filter by existing `username`-competition
    * links if `username` is not user's.
-   * @returns An array of competitions, filtered and redacted if necessary
+   * @param [status] Comma-separated statuses (`scheduled`, `active`, `ended` or `finalized`) to list instead
+   * @param [cursor] The `nextCursor` of the previous page
+   * @param [limit] The maximum number of competitions in the page
+   * @returns A page of competitions, filtered and redacted if necessary, and the cursor of the next page
    */
   @Router.get("/competitions")
-  // @Router.validate(z.object({ username: z.string().optional() }))
-  async getCompetitions(session: SessionDoc, username?: string) {
+  // @Router.validate(z.object({ username: z.string().optional(), status: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getCompetitions(session: SessionDoc, username?: string, status?: string, cursor?: string, limit?: string) {
     const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
-    const competitions = await Competing.getCompetitions();
+    const statuses = status ? status.split(",").map((s) => Competing.parseStatus(s.trim())) : undefined;
+    const memberOf = await getGroups(user);
 
     if (username) {
       const usernameOid = (await Authing.getUserByUsername(username))._id;
-      const usernameCompetitions = (
-        await Promise.all(
-          competitions.map(async (competition) => {
-            const members = await Joining.getMembers(competition._id);
-            return members.some((m) => m.equals(usernameOid)) ? competition : null;
-          }),
-        )
-      ).filter((c) => c !== null);
-      const userCompetitionsFormatted = await Responses.competitions(usernameCompetitions);
-      return user && user.equals(usernameOid)
-        ? userCompetitionsFormatted
-        : (await Promise.all(userCompetitionsFormatted.map(async (competition) => ((await Linking.hasLink(usernameOid, competition._id)) ? competition : null)))).filter((c) => c !== null);
+      const groups = (await Joining.getUserMemberships(usernameOid)).map((m) => m.group);
+      const usernameCompetitions = await Competing.getCompetitions(statuses, toPage(cursor, limit), groups, memberOf);
+      const userCompetitionsFormatted = await Responses.competitions(usernameCompetitions.items);
+      return {
+        ...usernameCompetitions,
+        items:
+          user && user.equals(usernameOid)
+            ? userCompetitionsFormatted
+            : (await Promise.all(userCompetitionsFormatted.map(async (competition) => ((await Linking.hasLink(usernameOid, competition._id)) ? competition : null)))).filter((c) => c !== null),
+      };
     }
 
-    const allCompetitions = await Competing.getCompetitions();
-    const allCompetitionsFormatted = await Responses.competitions(allCompetitions);
-    return await Promise.all(
-      allCompetitionsFormatted.map(async (competition) =>
-        (user && user.equals(competition.owner)) || (await Linking.hasLink((await Authing.getUserByUsername(competition.owner))._id, competition._id))
-          ? competition
-          : Competing.redactOwner(competition),
+    const allCompetitions = await Competing.getCompetitions(statuses, toPage(cursor, limit), undefined, memberOf);
+    const allCompetitionsFormatted = await Responses.competitions(allCompetitions.items);
+    return {
+      ...allCompetitions,
+      items: await Promise.all(
+        allCompetitionsFormatted.map(async (competition, i) =>
+          (user && user.equals(allCompetitions.items[i].owner)) || (await Linking.hasLink(allCompetitions.items[i].owner, competition._id)) ? competition : Competing.redactOwner(competition),
+        ),
       ),
-    );
+    };
+  }
+
+  /**
+   * Get a page of competitions that have ended, most recently ended first.
+   */
+  @Router.get("/competitions/past")
+  async getPastCompetitions(session: SessionDoc, cursor?: string, limit?: string) {
+    const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
+    const competitions = await Competing.getPastCompetitions(toPage(cursor, limit), await getGroups(user));
+    return { ...competitions, items: await Responses.competitions(competitions.items) };
   }
 
   @Router.post("/competitions")
-  async createCompetition(session: SessionDoc, isLinked: string, name: string, endDate: string) {
+  async createCompetition(session: SessionDoc, isLinked: string, name: string, endDate: string, scoring?: string, startDate?: string, joinPolicy?: string, metric?: string, timezone?: string) {
     const user = Sessioning.getUser(session);
-    const endDateObj = new Date(endDate);
-    const competitionCreation = await Competing.create(user, name, endDateObj);
+    const competitionTimezone = timezone ?? (await Authing.getTimezone(user));
+    const endDateObj = parseEndDate(endDate, competitionTimezone);
+    const startDateObj = startDate ? parseDate(startDate, competitionTimezone) : undefined;
+    const metricOid = metric ? (await Tracking.resolveMetric(metric, user))._id : undefined;
+    const competitionCreation = await Competing.create(user, name, endDateObj, scoring, startDateObj, joinPolicy, metricOid, competitionTimezone);
     const membershipCreation = await Joining.join(user, competitionCreation.competition._id);
 
     if (isLinked === "true") {
-      const linkCreation = await Linking.link(user, competitionCreation.competition._id);
+      const linkCreation = await Linking.link(user, competitionCreation.competition._id, "competitions");
       return {
         msg: `${competitionCreation.msg}\n${linkCreation.msg}\n${membershipCreation.msg}`,
         competition: await Responses.competition(competitionCreation.competition),
@@ -375,13 +895,14 @@ class Routes {
   }
 
   @Router.patch("/competitions/:name")
-  async updateCompetition(session: SessionDoc, name: string, newName?: string, owner?: string, endDate?: string) {
+  async updateCompetition(session: SessionDoc, name: string, newName?: string, endDate?: string, startDate?: string, joinPolicy?: string, timezone?: string) {
     const user = Sessioning.getUser(session);
-    const oid = (await Competing.getByName(name))._id;
-    await Competing.assertUserIsOwner(oid, user);
-    const ownerObj = owner ? new ObjectId(owner) : undefined;
-    const endDateObj = endDate ? new Date(endDate) : undefined;
-    return await Competing.update(oid, newName, ownerObj, endDateObj);
+    const competition = await Competing.getByName(name);
+    await Competing.assertUserIsAdmin(competition._id, user);
+    const competitionTimezone = timezone ?? competition.timezone;
+    const endDateObj = endDate ? parseEndDate(endDate, competitionTimezone) : undefined;
+    const startDateObj = startDate ? parseDate(startDate, competitionTimezone) : undefined;
+    return await Competing.update(competition._id, newName, endDateObj, startDateObj, joinPolicy, timezone);
   }
 
   @Router.delete("/competitions/:name")
@@ -389,76 +910,467 @@ class Routes {
     const user = Sessioning.getUser(session);
     const oid = (await Competing.getByName(name))._id;
     await Competing.assertUserIsOwner(oid, user);
-    const competitionDeletion = await Competing.delete(oid);
-    const linkDeletion = await Linking.unlink(user, oid);
-    await Joining.getMembers(oid).then((members) =>
-      members.forEach(async (member) => {
-        await Joining.leave(member, oid);
-        await Linking.unlink(member, oid);
-      }),
-    );
-    return { msg: `${competitionDeletion.msg}\n${linkDeletion.msg}\nMemberships removed.` };
+    const competitionDeletion = await closeCompetition(oid);
+    return { msg: `${competitionDeletion.msg}\nMemberships and links removed.` };
+  }
+
+  /**
+   * Get the leaderboard of a competition, ranking its members with the competition's scoring rule.
+   * @param name The name of the competition
+   * @returns An array of standings, ordered by rank
+   */
+  @Router.get("/competitions/:name/leaderboard")
+  async getCompetitionLeaderboard(session: SessionDoc, name: string) {
+    const competition = await getListedCompetition(session, name);
+    return await Responses.standings(await getStandings(competition));
+  }
+
+  /**
+   * Get the team leaderboard of a competition with teams, ranking its teams by their members' scores
+   * combined with the competition's team scoring.
+   * @param name The name of the competition
+   * @returns An array of team standings, ordered by rank, each with its members' individual standings
+   */
+  @Router.get("/competitions/:name/leaderboard/teams")
+  async getCompetitionTeamLeaderboard(session: SessionDoc, name: string) {
+    const competition = await getListedCompetition(session, name);
+    Competing.getTeamOptions(competition);
+    const [teams, standings, lowerIsBetter] = await Promise.all([Teaming.getTeams(competition._id), getStandings(competition), isLowerBetter(competition)]);
+    return await Responses.teamStandings(Competing.getTeamStandings(competition, teams, standings, lowerIsBetter));
+  }
+
+  /**
+   * Get a page of the data that counts toward a competition: every entry of its members dated within its window.
+   * @param name The name of the competition
+   * @param [cursor] The `nextCursor` of the previous page
+   * @param [limit] The maximum number of data in the page
+   * @returns A page of data, oldest first, and the cursor of the next page
+   */
+  @Router.get("/competitions/:name/data")
+  async getCompetitionData(session: SessionDoc, name: string, cursor?: string, limit?: string) {
+    const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
+    const competition = await getListedCompetition(session, name);
+    const members = await Joining.getMembers(competition._id);
+    const data = await Tracking.getPageByUsersInRange(members, Competing.getWindow(competition), toPage(cursor, limit), competition.metric);
+    return { ...data, items: await Responses.data(data.items, user) };
+  }
+
+  /**
+   * Finalize an ended competition, recording its final standings and winners.
+   * @param session The session of the user, who must be an admin of the competition
+   * @param name The name of the competition
+   * @returns The recorded results
+   */
+  @Router.post("/competitions/:name/finalize")
+  async finalizeCompetition(session: SessionDoc, name: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    await Competing.assertUserIsAdmin(competition._id, user);
+    const finalization = await Competing.finalize(competition._id, await getStandings(competition));
+    // Members are told that the competition ended once, here or by the scheduler, whichever comes first
+    if (await Competing.markNoticeSent(competition._id, CompetitionNotice.ENDED)) {
+      await Promise.all(
+        finalization.result.standings.map((standing) =>
+          notify([standing.user], NotificationType.COMPETITION_ENDED, undefined, competition._id, { competition: competition.name, rank: standing.rank }),
+        ),
+      );
+    }
+    return { msg: finalization.msg, result: await Responses.result(finalization.result) };
+  }
+
+  @Router.get("/competitions/:name/results")
+  async getCompetitionResults(session: SessionDoc, name: string) {
+    const competition = await getListedCompetition(session, name);
+    return await Responses.result(await Competing.getResults(competition._id));
   }
 
   @Router.get("/competitions/:name/users")
   // @Router.validate(z.object({ name: z.string().min(1) }))
-  async getCompetitionMembers(session: SessionDoc, name: string) {
+  async getCompetitionMembers(session: SessionDoc, name: string, cursor?: string, limit?: string) {
     const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
-    const competitionOid = (await Competing.getByName(name))._id;
-    const memberships = await Joining.getMemberships(competitionOid);
-    const linkedMemberships = (await Promise.all(memberships.map(async (m) => ((user && user.equals(m.user)) || (await Linking.hasLink(m.user, competitionOid)) ? m : null)))).filter(
+    const competitionOid = (await getListedCompetition(session, name))._id;
+    const memberships = await Joining.getMembershipsPage(competitionOid, toPage(cursor, limit));
+    const linkedMemberships = (await Promise.all(memberships.items.map(async (m) => ((user && user.equals(m.user)) || (await Linking.hasLink(m.user, competitionOid)) ? m : null)))).filter(
       (m) => m !== null,
     );
-    return await Responses.memberships(linkedMemberships);
+    return { ...memberships, items: await Responses.memberships(linkedMemberships) };
   }
 
+  /**
+   * Join a competition according to its join policy: open competitions are joined right away,
+   * request-to-join competitions get a request for the owner to approve, and invite-only
+   * competitions need an invite `code`. A valid `code` joins a competition of any policy.
+   * @param session The session of the user
+   * @param isLinked Whether to link the user to the competition once they are a member
+   * @param name The name of the competition
+   * @param [code] An invite code of the competition
+   */
   @Router.post("/competitions/:name/users")
-  async joinCompetition(session: SessionDoc, isLinked: string, name: string) {
+  async joinCompetition(session: SessionDoc, isLinked: string, name: string, code?: string) {
     const user = Sessioning.getUser(session);
     const competition = await Competing.getByName(name);
-    const membershipCreation = await Joining.join(user, competition._id);
+    await Blocking.assertNotBlocked(competition.owner, user);
+    const policy = Competing.getJoinPolicy(competition);
+    if (!code && policy === JoinPolicy.INVITE) throw new NotAllowedError(`Competition ${name} is invite-only!`);
+    if (!code && policy === JoinPolicy.REQUEST) {
+      const request = await Joining.requestToJoin(user, competition._id);
+      await notify(Competing.getAdmins(competition), NotificationType.JOIN_REQUEST, user, competition._id, { competition: competition.name });
+      return request;
+    }
+    const membershipCreation = code ? await Joining.joinWithInvite(user, competition._id, code) : await Joining.join(user, competition._id);
+    await notify([competition.owner], NotificationType.NEW_MEMBER, user, competition._id, { competition: competition.name });
     if (isLinked === "true") {
-      const linkCreation = await Linking.link(user, competition._id);
+      const linkCreation = await Linking.link(user, competition._id, "competitions");
       return { msg: `${membershipCreation.msg}\n${linkCreation.msg}`, membership: await Responses.membership(membershipCreation.membership), link: await Responses.link(linkCreation.link) };
     }
     return { msg: membershipCreation.msg, membership: await Responses.membership(membershipCreation.membership) };
   }
 
+  /**
+   * Leave a competition. An owner who leaves hands the competition off to its first admin, or else its
+   * longest-standing other member, and the competition is closed if there is no one left.
+   */
   @Router.delete("/competitions/:name/users")
   async leaveCompetition(session: SessionDoc, name: string) {
     const user = Sessioning.getUser(session);
-    const competitionOid = (await Competing.getByName(name))._id;
-    const membershipDeletion = await Joining.leave(user, competitionOid);
-    const linkDeletion = await Linking.unlink(user, competitionOid);
+    const competition = await Competing.getByName(name);
+    const membershipDeletion = await Joining.leave(user, competition._id);
+    const linkDeletion = await Linking.unlink(user, competition._id);
+    await Teaming.leaveIfOnTeam(user, competition._id);
+    if (competition.owner.equals(user)) {
+      const handoff = await handOffCompetition(competition, user);
+      return { msg: `${membershipDeletion.msg}\n${linkDeletion.msg}\n${handoff.msg}` };
+    }
+    if (Competing.isAdmin(competition, user)) await Competing.removeAdmin(competition._id, user);
     return { msg: `${membershipDeletion.msg}\n${linkDeletion.msg}` };
   }
 
-  @Router.get("/links")
-  @Router.validate(z.object({ user: z.string().optional() }))
-  async getLinks(user?: string) {
-    if (user) {
-      const userOid = (await Authing.getUserByUsername(user))._id;
-      return await Responses.links(await Linking.getByUser(userOid));
-    } else {
-      return await Responses.links(await Linking.getLinks());
+  /**
+   * Remove a member from a competition. Admins can remove members, but only the owner can remove
+   * other admins, and nobody can remove the owner.
+   */
+  @Router.delete("/competitions/:name/users/:username")
+  async kickCompetitionMember(session: SessionDoc, name: string, username: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    await Competing.assertUserIsAdmin(competition._id, user);
+    const member = (await Authing.getUserByUsername(username))._id;
+    if (member.equals(competition.owner)) throw new NotAllowedError("Owners cannot be removed from their competition!");
+    if (Competing.isAdmin(competition, member)) {
+      await Competing.assertUserIsOwner(competition._id, user);
+      await Competing.removeAdmin(competition._id, member);
     }
+    const kick = await Joining.kick(member, competition._id);
+    await Promise.all([Linking.unlink(member, competition._id), Teaming.leaveIfOnTeam(member, competition._id)]);
+    return kick;
   }
 
-  @Router.get("/links/posts")
-  @Router.validate(z.object({ username: z.string().optional() }))
-  async getUserPostLinks(username?: string) {
-    const links = await Linking.getLinks();
+  /**
+   * Make another member the owner of a competition. Only the owner can transfer it, and stays on as an admin.
+   * @param session The session of the user, who must own the competition
+   * @param name The name of the competition
+   * @param username The username of the new owner, who must be a member
+   */
+  @Router.put("/competitions/:name/owner")
+  async transferCompetition(session: SessionDoc, name: string, username: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    await Competing.assertUserIsOwner(competition._id, user);
+    const owner = (await Authing.getUserByUsername(username))._id;
+    await Joining.assertUserIsMember(owner, competition._id);
+    const transfer = await Competing.transferOwnership(competition._id, owner);
+    await Competing.addAdmin(competition._id, user);
+    return { msg: transfer.msg, competition: await Responses.competition(await Competing.getById(competition._id)) };
+  }
 
-    if (username) {
-      const userOid = (await Authing.getUserByUsername(username))._id;
-      const userPostOids = new Set((await Posting.getByAuthor(userOid)).map((post) => post._id.toString()));
-      const userPostLinks = links.filter((link) => userPostOids.has(link.item.toString()));
-      return await Responses.links(userPostLinks);
-    }
+  /**
+   * Make a member an admin of a competition. Only the owner can add admins.
+   */
+  @Router.post("/competitions/:name/admins")
+  async addCompetitionAdmin(session: SessionDoc, name: string, username: string) {
+    const user = Sessioning.getUser(session);
+    const competitionOid = (await Competing.getByName(name))._id;
+    await Competing.assertUserIsOwner(competitionOid, user);
+    const admin = (await Authing.getUserByUsername(username))._id;
+    await Joining.assertUserIsMember(admin, competitionOid);
+    return await Competing.addAdmin(competitionOid, admin);
+  }
+
+  /**
+   * Take away the admin role of a member of a competition as its owner, or step down as an admin.
+   */
+  @Router.delete("/competitions/:name/admins/:username")
+  async removeCompetitionAdmin(session: SessionDoc, name: string, username: string) {
+    const user = Sessioning.getUser(session);
+    const competitionOid = (await Competing.getByName(name))._id;
+    const admin = (await Authing.getUserByUsername(username))._id;
+    if (!admin.equals(user)) await Competing.assertUserIsOwner(competitionOid, user);
+    return await Competing.removeAdmin(competitionOid, admin);
+  }
+
+  /**
+   * Turn on teams for a competition, or change how they work. Only admins can set team options.
+   * @param [scoring] `sum` (default) or `average` of the team members' scores
+   * @param [maxSize] The most members a team can have, by default any number
+   * @param [locked] Whether teams are locked once the competition starts, by default not
+   */
+  @Router.put("/competitions/:name/team-options")
+  async setCompetitionTeamOptions(session: SessionDoc, name: string, scoring?: string, maxSize?: string, locked?: string) {
+    const user = Sessioning.getUser(session);
+    const competitionOid = (await Competing.getByName(name))._id;
+    await Competing.assertUserIsAdmin(competitionOid, user);
+    return await Competing.setTeamOptions(competitionOid, scoring, maxSize ? Number(maxSize) : undefined, locked === "true");
+  }
+
+  @Router.get("/competitions/:name/teams")
+  async getCompetitionTeams(name: string) {
+    const competition = await Competing.getByName(name);
+    Competing.getTeamOptions(competition);
+    return await Responses.teams(await Teaming.getTeams(competition._id));
+  }
 
-    const postOids = new Set((await Posting.getPosts()).map((post) => post._id.toString()));
-    const userPostLinks = links.filter((link) => postOids.has(link.item.toString()));
-    return await Responses.links(userPostLinks);
+  @Router.post("/competitions/:name/teams")
+  async createCompetitionTeam(session: SessionDoc, name: string, team: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    await Competing.assertUserIsAdmin(competition._id, user);
+    Competing.assertTeamsAreOpen(competition);
+    const teamCreation = await Teaming.create(competition._id, team);
+    return { msg: teamCreation.msg, team: (await Responses.teams([teamCreation.team]))[0] };
+  }
+
+  @Router.delete("/competitions/:name/teams/:team")
+  async deleteCompetitionTeam(session: SessionDoc, name: string, team: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    await Competing.assertUserIsAdmin(competition._id, user);
+    Competing.assertTeamsAreOpen(competition);
+    return await Teaming.delete((await Teaming.getByName(competition._id, team))._id);
+  }
+
+  /**
+   * Join a team of a competition that the user is a member of, up to the competition's team size.
+   */
+  @Router.post("/competitions/:name/teams/:team/users")
+  async joinCompetitionTeam(session: SessionDoc, name: string, team: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    Competing.assertTeamsAreOpen(competition);
+    await Joining.assertUserIsMember(user, competition._id);
+    const teamDoc = await Teaming.getByName(competition._id, team);
+    return await Teaming.join(user, teamDoc._id, Competing.getTeamOptions(competition).maxSize);
+  }
+
+  @Router.delete("/competitions/:name/teams/:team/users")
+  async leaveCompetitionTeam(session: SessionDoc, name: string, team: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    Competing.assertTeamsAreOpen(competition);
+    const userTeam = await Teaming.getUserTeam(competition._id, user);
+    if (!userTeam || userTeam.name !== team) throw new NotFoundError(`User is not on team ${team}!`);
+    return await Teaming.leave(user, competition._id);
+  }
+
+  /**
+   * Get a page of the disputes in a competition, newest first, including resolved ones as an audit trail.
+   * @param session The session of the user, who must be a member of the competition
+   * @param name The name of the competition
+   * @param [status] Only get disputes with this status: `open`, `accepted`, `rejected` or `adjusted`
+   */
+  @Router.get("/competitions/:name/disputes")
+  async getDisputes(session: SessionDoc, name: string, status?: string, cursor?: string, limit?: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    await Joining.assertUserIsMember(user, competition._id);
+    const disputes = await Disputing.getDisputes(competition._id, Disputing.parseStatus(status), toPage(cursor, limit));
+    return { ...disputes, items: await Responses.disputes(disputes.items) };
+  }
+
+  /**
+   * Dispute an entry that counts toward a competition.
+   * @param session The session of the user, who must be a member of the competition
+   * @param name The name of the competition
+   * @param id The id of the data entry
+   * @param reason Why the entry is suspicious
+   */
+  @Router.post("/competitions/:name/disputes")
+  async openDispute(session: SessionDoc, name: string, id: string, reason: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    await Joining.assertUserIsMember(user, competition._id);
+    const [data] = await Tracking.getByIds([new ObjectId(id)]);
+    if (!data || !(await countsToward(data, competition))) throw new NotFoundError(`Data ${id} does not count toward competition ${name}!`);
+    const disputeCreation = await Disputing.open(competition._id, data._id, user, reason);
+    await notify(Competing.getAdmins(competition), NotificationType.DISPUTE_OPENED, user, competition._id, { competition: competition.name });
+    return { msg: disputeCreation.msg, dispute: (await Responses.disputes([disputeCreation.dispute]))[0] };
+  }
+
+  /**
+   * Resolve an open dispute. Rejected entries no longer count toward the competition,
+   * and adjusted entries count with the given score instead.
+   * @param session The session of the user, who must be an admin of the competition
+   * @param name The name of the competition
+   * @param id The id of the dispute
+   * @param resolution `accepted`, `rejected` or `adjusted`
+   * @param [score] The adjusted score, as a value of the competition's metric
+   * @param [note] Why the dispute was resolved this way
+   */
+  @Router.patch("/competitions/:name/disputes/:id")
+  async resolveDispute(session: SessionDoc, name: string, id: string, resolution: string, score?: string, note?: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    await Competing.assertUserIsAdmin(competition._id, user);
+    const dispute = await Disputing.getDispute(new ObjectId(id));
+    if (!dispute.group.equals(competition._id)) throw new NotFoundError(`Dispute ${id} is not in competition ${name}!`);
+    const resolutionParsed = Disputing.parseResolution(resolution);
+    const adjustedScore = score ? Tracking.parseValue(await Tracking.getMetric(competition.metric), score) : undefined;
+    const [data] = await Tracking.getByIds([dispute.item]);
+    const resolved = await Disputing.resolve(dispute._id, user, resolutionParsed, adjustedScore, note);
+    const recipients = [dispute.opener, data?.user].filter((recipient): recipient is ObjectId => recipient !== undefined && !recipient.equals(user));
+    await notify(recipients, NotificationType.DISPUTE_RESOLVED, user, competition._id, { competition: competition.name, resolution: resolutionParsed });
+    return resolved;
+  }
+
+  /**
+   * Get a page of the pending requests to join a competition, oldest first. Only admins can see them.
+   */
+  @Router.get("/competitions/:name/requests")
+  async getJoinRequests(session: SessionDoc, name: string, cursor?: string, limit?: string) {
+    const user = Sessioning.getUser(session);
+    const competitionOid = (await Competing.getByName(name))._id;
+    await Competing.assertUserIsAdmin(competitionOid, user);
+    const requests = await Joining.getRequests(competitionOid, toPage(cursor, limit));
+    return { ...requests, items: await Responses.joinRequests(requests.items) };
+  }
+
+  @Router.put("/competitions/:name/requests/:username")
+  async acceptJoinRequest(session: SessionDoc, name: string, username: string) {
+    const user = Sessioning.getUser(session);
+    const competition = await Competing.getByName(name);
+    await Competing.assertUserIsAdmin(competition._id, user);
+    const requester = (await Authing.getUserByUsername(username))._id;
+    const membershipCreation = await Joining.acceptRequest(requester, competition._id);
+    await notify([requester], NotificationType.JOIN_ACCEPTED, user, competition._id, { competition: competition.name });
+    return { msg: membershipCreation.msg, membership: await Responses.membership(membershipCreation.membership) };
+  }
+
+  /**
+   * Reject a request to join a competition as its admin, or withdraw the user's own request.
+   */
+  @Router.delete("/competitions/:name/requests/:username")
+  async removeJoinRequest(session: SessionDoc, name: string, username: string) {
+    const user = Sessioning.getUser(session);
+    const competitionOid = (await Competing.getByName(name))._id;
+    const requester = (await Authing.getUserByUsername(username))._id;
+    if (!requester.equals(user)) await Competing.assertUserIsAdmin(competitionOid, user);
+    return await Joining.removeRequest(requester, competitionOid);
+  }
+
+  @Router.get("/competitions/:name/invites")
+  async getCompetitionInvites(session: SessionDoc, name: string) {
+    const user = Sessioning.getUser(session);
+    const competitionOid = (await Competing.getByName(name))._id;
+    await Competing.assertUserIsAdmin(competitionOid, user);
+    return await Responses.invites(await Joining.getInvites(competitionOid));
+  }
+
+  /**
+   * Create a shareable invite code to a competition. Only admins can create invites.
+   * @param [expiresAt] When the invite stops working, by default never
+   * @param [maxUses] How many users can join with the invite, by default any number
+   */
+  @Router.post("/competitions/:name/invites")
+  async createCompetitionInvite(session: SessionDoc, name: string, expiresAt?: string, maxUses?: string) {
+    const user = Sessioning.getUser(session);
+    const competitionOid = (await Competing.getByName(name))._id;
+    await Competing.assertUserIsAdmin(competitionOid, user);
+    const expiresAtObj = expiresAt ? new Date(expiresAt) : undefined;
+    if (expiresAtObj && isNaN(expiresAtObj.getTime())) throw new BadValuesError("Invalid expiry date!");
+    const inviteCreation = await Joining.createInvite(competitionOid, user, expiresAtObj, maxUses ? Number(maxUses) : undefined);
+    return { msg: inviteCreation.msg, invite: (await Responses.invites([inviteCreation.invite]))[0] };
+  }
+
+  @Router.delete("/competitions/:name/invites/:code")
+  async revokeCompetitionInvite(session: SessionDoc, name: string, code: string) {
+    const user = Sessioning.getUser(session);
+    const competitionOid = (await Competing.getByName(name))._id;
+    await Competing.assertUserIsAdmin(competitionOid, user);
+    return await Joining.revokeInvite(competitionOid, code);
+  }
+
+  @Router.get("/series")
+  async getSeries(cursor?: string, limit?: string) {
+    const series = await Recurring.getSeries(toPage(cursor, limit));
+    return { ...series, items: await Responses.series(series.items) };
+  }
+
+  /**
+   * Get a series along with its history: every competition of the series that still exists, oldest first.
+   */
+  @Router.get("/series/:name")
+  async getSeriesHistory(name: string) {
+    const series = await Recurring.getByName(name);
+    const competitions = await Competing.getByIds(series.instances);
+    competitions.sort((a, b) => a.endDate.getTime() - b.endDate.getTime());
+    return { ...(await Responses.series([series]))[0], competitions: await Responses.competitions(competitions) };
+  }
+
+  /**
+   * Create a recurring competition: a series whose first competition is created right away and runs for one
+   * period of `recurrence`. Whenever a competition of the series ends, the next one is created with the same
+   * owner, settings, admins, members and teams, and named after the series and its number in it.
+   * @param session The session of the user
+   * @param name The name of the series
+   * @param recurrence `daily`, `weekly` or `monthly`
+   * @param [scoring] The scoring rule of the competitions
+   * @param [startDate] When the first competition starts, by default now
+   * @param [joinPolicy] The join policy of the competitions
+   * @param [metric] The name or id of the metric of the competitions
+   */
+  @Router.post("/series")
+  async createSeries(session: SessionDoc, name: string, recurrence: string, scoring?: string, startDate?: string, joinPolicy?: string, metric?: string, timezone?: string) {
+    const user = Sessioning.getUser(session);
+    const recurrenceRule = Recurring.parseRecurrence(recurrence);
+    await Recurring.assertNameUnique(name);
+    const seriesTimezone = timezone ?? (await Authing.getTimezone(user));
+    const startDateObj = startDate ? parseDate(startDate, seriesTimezone) : new Date();
+    const endDate = Recurring.advance(recurrenceRule, startDateObj, seriesTimezone);
+    const metricOid = metric ? (await Tracking.resolveMetric(metric, user))._id : undefined;
+    const competitionCreation = await Competing.create(user, Recurring.getInstanceName(name, 1), endDate, scoring, startDateObj, joinPolicy, metricOid, seriesTimezone);
+    await Joining.join(user, competitionCreation.competition._id);
+    const seriesCreation = await Recurring.create(user, name, recurrenceRule, competitionCreation.competition._id, endDate);
+    return {
+      msg: `${seriesCreation.msg}\n${competitionCreation.msg}`,
+      series: (await Responses.series([seriesCreation.series]))[0],
+      competition: await Responses.competition(competitionCreation.competition),
+    };
+  }
+
+  /**
+   * Stop a series from recurring. Its competitions are kept. Only the owner of the series can stop it.
+   */
+  @Router.delete("/series/:name")
+  async stopSeries(session: SessionDoc, name: string) {
+    const user = Sessioning.getUser(session);
+    const series = await Recurring.getByName(name);
+    await Recurring.assertUserIsOwner(series._id, user);
+    return await Recurring.stop(series._id);
+  }
+
+  @Router.get("/links")
+  @Router.validate(z.object({ user: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getLinks(user?: string, cursor?: string, limit?: string) {
+    const userOid = user ? (await Authing.getUserByUsername(user))._id : undefined;
+    const links = await Linking.getLinks(toPage(cursor, limit), userOid);
+    return { ...links, items: await Responses.links(links.items) };
+  }
+
+  @Router.get("/links/posts")
+  @Router.validate(z.object({ username: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getUserPostLinks(username?: string, cursor?: string, limit?: string) {
+    const userOid = username ? (await Authing.getUserByUsername(username))._id : undefined;
+    const links = await Linking.getLinks(toPage(cursor, limit), userOid, "posts");
+    return { ...links, items: await Responses.links(links.items) };
   }
 
   @Router.post("/links/posts")
@@ -466,7 +1378,7 @@ class Routes {
     const user = Sessioning.getUser(session);
     const oid = new ObjectId(postId);
     await Posting.assertUserIsAuthor(oid, user);
-    const linkCreation = await Linking.link(user, oid);
+    const linkCreation = await Linking.link(user, oid, "posts");
     return { msg: linkCreation.msg, link: await Responses.link(linkCreation.link) };
   }
 
@@ -479,20 +1391,11 @@ class Routes {
   }
 
   @Router.get("/links/comments")
-  @Router.validate(z.object({ username: z.string().optional() }))
-  async getUserCommentLinks(username?: string) {
-    const links = await Linking.getLinks();
-
-    if (username) {
-      const userOid = (await Authing.getUserByUsername(username))._id;
-      const userCommentOids = new Set((await Commenting.getByAuthor(userOid)).map((comment) => comment._id.toString()));
-      const userCommentLinks = links.filter((link) => userCommentOids.has(link.item.toString()));
-      return await Responses.links(userCommentLinks);
-    }
-
-    const commentOids = new Set((await Commenting.getComments()).map((comment) => comment._id.toString()));
-    const userCommentLinks = links.filter((link) => commentOids.has(link.item.toString()));
-    return await Responses.links(userCommentLinks);
+  @Router.validate(z.object({ username: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getUserCommentLinks(username?: string, cursor?: string, limit?: string) {
+    const userOid = username ? (await Authing.getUserByUsername(username))._id : undefined;
+    const links = await Linking.getLinks(toPage(cursor, limit), userOid, "comments");
+    return { ...links, items: await Responses.links(links.items) };
   }
 
   @Router.post("/links/comments")
@@ -500,7 +1403,7 @@ class Routes {
     const user = Sessioning.getUser(session);
     const oid = new ObjectId(commentId);
     await Commenting.assertUserIsAuthor(oid, user);
-    const linkCreation = await Linking.link(user, oid);
+    const linkCreation = await Linking.link(user, oid, "comments");
     return { msg: linkCreation.msg, link: await Responses.link(linkCreation.link) };
   }
 
@@ -513,20 +1416,11 @@ class Routes {
   }
 
   @Router.get("/links/data")
-  @Router.validate(z.object({ username: z.string().optional() }))
-  async getUserDataLinks(username?: string) {
-    const links = await Linking.getLinks();
-
-    if (username) {
-      const userOid = (await Authing.getUserByUsername(username))._id;
-      const userDataOids = new Set((await Tracking.getByUser(userOid)).map((d) => d._id.toString()));
-      const userDataLinks = links.filter((link) => userDataOids.has(link.item.toString()));
-      return await Responses.links(userDataLinks);
-    }
-
-    const dataOids = new Set((await Tracking.getData()).map((d) => d._id.toString()));
-    const userDataLinks = links.filter((link) => dataOids.has(link.item.toString()));
-    return await Responses.links(userDataLinks);
+  @Router.validate(z.object({ username: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getUserDataLinks(username?: string, cursor?: string, limit?: string) {
+    const userOid = username ? (await Authing.getUserByUsername(username))._id : undefined;
+    const links = await Linking.getLinks(toPage(cursor, limit), userOid, "data");
+    return { ...links, items: await Responses.links(links.items) };
   }
 
   @Router.post("/links/data")
@@ -534,7 +1428,7 @@ class Routes {
     const user = Sessioning.getUser(session);
     const oid = new ObjectId(dataId);
     await Tracking.assertUserIsOwner(oid, user);
-    const linkCreation = await Linking.link(user, oid);
+    const linkCreation = await Linking.link(user, oid, "data");
     return { msg: linkCreation.msg, link: await Responses.link(linkCreation.link) };
   }
 
@@ -547,20 +1441,11 @@ class Routes {
   }
 
   @Router.get("/links/competitions")
-  @Router.validate(z.object({ username: z.string().optional() }))
-  async getUserCompetitionLinks(username?: string) {
-    const links = await Linking.getLinks();
-
-    if (username) {
-      const userOid = (await Authing.getUserByUsername(username))._id;
-      const userCompetitionOids = new Set((await Competing.getByOwner(userOid)).map((d) => d._id.toString()));
-      const userCompetitionLinks = links.filter((link) => userCompetitionOids.has(link.item.toString()));
-      return await Responses.links(userCompetitionLinks);
-    }
-
-    const competitionOids = new Set((await Competing.getCompetitions()).map((d) => d._id.toString()));
-    const userCompetitionLinks = links.filter((link) => competitionOids.has(link.item.toString()));
-    return await Responses.links(userCompetitionLinks);
+  @Router.validate(z.object({ username: z.string().optional(), cursor: z.string().optional(), limit: z.string().optional() }))
+  async getUserCompetitionLinks(username?: string, cursor?: string, limit?: string) {
+    const userOid = username ? (await Authing.getUserByUsername(username))._id : undefined;
+    const links = await Linking.getLinks(toPage(cursor, limit), userOid, "competitions");
+    return { ...links, items: await Responses.links(links.items) };
   }
 
   @Router.post("/links/competitions")
@@ -568,7 +1453,7 @@ class Routes {
     const user = Sessioning.getUser(session);
     const oid = new ObjectId(competitionId);
     await Competing.assertUserIsOwner(oid, user);
-    const linkCreation = await Linking.link(user, oid);
+    const linkCreation = await Linking.link(user, oid, "competitions");
     return { msg: linkCreation.msg, link: await Responses.link(linkCreation.link) };
   }
 
@@ -579,10 +1464,490 @@ class Routes {
     await Linking.assertLinkBelongsToUser(oid, user);
     return await Linking.delete(oid);
   }
+
+  /**
+   * List every user with their role and suspension.
+   */
+  @Router.get("/admin/users")
+  @Router.guard("moderator")
+  async listUsersForModeration(cursor?: string, limit?: string) {
+    return await Authing.getUsers(undefined, toPage(cursor, limit));
+  }
+
+  /**
+   * Give a user a role: `user`, `moderator` or `admin`. Admins can't change the roles of other admins.
+   */
+  @Router.patch("/admin/users/:username/role")
+  @Router.guard("admin")
+  async setUserRole(session: SessionDoc, username: string, role: string) {
+    const user = Sessioning.getUser(session);
+    const target = (await Authing.getUserByUsername(username))._id;
+    await Authing.assertOutranks(user, target);
+    return await Authing.setRole(target, role);
+  }
+
+  /**
+   * Suspend a user with a lower role than the moderator, until `until` or indefinitely.
+   * Suspended users can't log in and are logged out on their next request.
+   */
+  @Router.put("/admin/users/:username/suspension")
+  @Router.guard("moderator")
+  async suspendUser(session: SessionDoc, username: string, reason: string, until?: string) {
+    const user = Sessioning.getUser(session);
+    const target = (await Authing.getUserByUsername(username))._id;
+    await Authing.assertOutranks(user, target);
+    return await Authing.suspend(target, user, reason, until ? new Date(until) : undefined);
+  }
+
+  @Router.delete("/admin/users/:username/suspension")
+  @Router.guard("moderator")
+  async unsuspendUser(session: SessionDoc, username: string) {
+    const user = Sessioning.getUser(session);
+    const target = (await Authing.getUserByUsername(username))._id;
+    await Authing.assertOutranks(user, target);
+    return await Authing.unsuspend(target);
+  }
+
+  /**
+   * Create the next competition of every series whose latest competition has ended, without waiting for the scheduler.
+   * Useful where the server does not stay up between requests, e.g. to be called by a cron job.
+   */
+  @Router.post("/admin/series/renew")
+  @Router.guard("admin")
+  async renewAllSeries() {
+    const created = await renewSeries();
+    return { msg: `Created ${created} competition(s)!`, created };
+  }
+
+  /**
+   * Tell members about competitions that are about to end or have ended, without waiting for the scheduler.
+   * Like renewing series, useful where the server does not stay up between requests.
+   */
+  @Router.post("/admin/competitions/notices")
+  @Router.guard("admin")
+  async sendAllCompetitionNotices() {
+    const sent = await sendCompetitionNotices();
+    return { msg: `Sent ${sent} competition notice(s)!`, sent };
+  }
+
+  /**
+   * List any content, including content hidden from everyone else, newest first.
+   * @param type `posts`, `comments`, `data` or `competitions`
+   * @param [hidden] If `"true"`, only list hidden content
+   */
+  @Router.get("/admin/content/:type")
+  @Router.guard("moderator")
+  async listContent(type: string, hidden?: string, cursor?: string, limit?: string) {
+    const page = toPage(cursor, limit);
+    const hiddenOnly = hidden === "true";
+    switch (type) {
+      case "posts": {
+        const posts = await Posting.getAll(page, hiddenOnly);
+        return { ...posts, items: await Responses.posts(posts.items) };
+      }
+      case "comments": {
+        const comments = await Commenting.getAll(page, hiddenOnly);
+        return { ...comments, items: await Responses.comments(comments.items) };
+      }
+      case "data": {
+        const data = await Tracking.getAll(page, hiddenOnly);
+        return { ...data, items: await Responses.data(data.items) };
+      }
+      case "competitions": {
+        const competitions = await Competing.getAll(page, hiddenOnly);
+        return { ...competitions, items: await Responses.competitions(competitions.items) };
+      }
+      default:
+        throw new BadValuesError("Content type must be one of posts, comments, data or competitions!");
+    }
+  }
+
+  /**
+   * Hide any content from everyone but moderators, or show it again.
+   * @param type `posts`, `comments`, `data` or `competitions`
+   * @param hidden `"true"` to hide the content, `"false"` to show it
+   */
+  @Router.patch("/admin/content/:type/:id")
+  @Router.guard("moderator")
+  async setContentHidden(type: string, id: string, hidden: string) {
+    if (hidden !== "true" && hidden !== "false") throw new BadValuesError("Hidden must be either true or false!");
+    return await setItemHidden(type, new ObjectId(id), hidden === "true");
+  }
+
+  /**
+   * Delete any content along with its links and reactions.
+   * @param type `posts`, `comments`, `data` or `competitions`
+   */
+  @Router.delete("/admin/content/:type/:id")
+  @Router.guard("moderator")
+  async deleteContent(type: string, id: string) {
+    return await deleteItem(type, new ObjectId(id));
+  }
+
+  /**
+   * Report a post, comment, data entry or competition that the user can see. Each user can report an item once.
+   * @param type `posts`, `comments`, `data` or `competitions`
+   * @param id The id of the item
+   * @param reason `spam`, `abuse` or `other`
+   * @param [details] Anything else moderators should know
+   */
+  @Router.post("/reports")
+  async report(session: SessionDoc, type: string, id: string, reason: string, details?: string) {
+    const user = Sessioning.getUser(session);
+    const item = new ObjectId(id);
+    await assertItemVisible(type, item, user);
+    return await Reporting.report(user, item, type, reason, details);
+  }
+
+  /**
+   * Get a page of the moderation queue: the reported items that are still open, most reported first.
+   */
+  @Router.get("/reports")
+  @Router.guard("moderator")
+  async getReportQueue(cursor?: string, limit?: string) {
+    return await Reporting.getQueue(toPage(cursor, limit));
+  }
+
+  @Router.get("/reports/:id")
+  @Router.guard("moderator")
+  async getItemReports(id: string) {
+    const item = new ObjectId(id);
+    const [reportCase, reports] = await Promise.all([Reporting.getCase(item), Reporting.getReports(item)]);
+    return { case: reportCase, reports: await Responses.reports(reports) };
+  }
+
+  /**
+   * Resolve the reports on an item by dismissing them, hiding the item or deleting it.
+   * @param id The id of the reported item
+   * @param resolution `dismissed`, `hidden` or `deleted`
+   */
+  @Router.patch("/reports/:id")
+  @Router.guard("moderator")
+  async resolveReports(session: SessionDoc, id: string, resolution: string) {
+    const user = Sessioning.getUser(session);
+    const item = new ObjectId(id);
+    const reportCase = await Reporting.getOpenCase(item);
+    const action = Reporting.parseResolution(resolution);
+    if (action === CaseResolution.HIDDEN) await setItemHidden(reportCase.itemType, item, true);
+    if (action === CaseResolution.DELETED) await deleteItem(reportCase.itemType, item);
+    return await Reporting.resolve(item, user, action);
+  }
+}
+
+/**
+ * Get who is reading posts: `user`, if logged in, along with their friends.
+ */
+async function getPostViewer(user?: ObjectId): Promise<PostViewer> {
+  if (!user) return { friends: [] };
+  const [friends, ignored] = await Promise.all([Friending.getFriends(user), Blocking.getIgnored(user)]);
+  return { user, friends, ignored };
+}
+
+/**
+ * Get the groups, i.e. competitions, that `user` is a member of, if there is a user.
+ */
+async function getGroups(user?: ObjectId) {
+  return user ? (await Joining.getUserMemberships(user)).map((membership) => membership.group) : [];
+}
+
+/**
+ * Get the competition named `name` if it is listed to the user of `session`, who may be logged out.
+ */
+async function getListedCompetition(session: SessionDoc, name: string) {
+  const user = Sessioning.isLoggedIn(session) ? Sessioning.getUser(session) : undefined;
+  const competition = await Competing.getByName(name);
+  Competing.assertIsListedTo(competition, await getGroups(user), user);
+  return competition;
+}
+
+/**
+ * Notify `recipients` of what `actor`, if any, did, except those who blocked or muted `actor`.
+ */
+async function notify(recipients: ObjectId[], type: NotificationType, actor?: ObjectId, item?: ObjectId, details?: NotificationDoc["details"]) {
+  return await Notifying.notify(actor ? await Blocking.filterNotIgnoring(recipients, actor) : recipients, type, actor, item, details);
+}
+
+/**
+ * Keep only the comments on posts that `viewer` can see.
+ */
+async function filterVisibleComments(comments: CommentDoc[], viewer: PostViewer) {
+  const visiblePosts = new Set(
+    (
+      await Posting.getVisibleIds(
+        comments.map((comment) => comment.item),
+        viewer,
+      )
+    ).map((id) => id.toString()),
+  );
+  return comments.filter((comment) => visiblePosts.has(comment.item.toString()));
+}
+
+/**
+ * Assert that `item` is a post, comment or data entry that `user` can see, by an author who doesn't block them.
+ */
+async function assertCanReact(item: ObjectId, user: ObjectId) {
+  const viewer = await getPostViewer(user);
+  const [[post], [comment], [data]] = await Promise.all([Posting.getByIds([item]), Commenting.getByIds([item]), Tracking.getByIds([item])]);
+  let author: ObjectId | undefined;
+  if (post) author = (await Posting.getVisibleIds([item], viewer)).length > 0 ? post.author : undefined;
+  else if (comment && !comment.deleted && !comment.hidden) author = (await filterVisibleComments([comment], viewer)).length > 0 ? comment.author : undefined;
+  else if (data && !data.hidden) author = data.user;
+  if (!author || viewer.ignored?.some((ignored) => ignored.equals(author))) throw new NotFoundError("Item {0} does not exist!", item);
+  await Blocking.assertNotBlocked(user, author);
+}
+
+/**
+ * Notify the author of the comment that `comment` replies to, or else the author of the post it is on.
+ */
+async function notifyCommentRecipients(comment: CommentDoc) {
+  if (comment.parent) {
+    const [parent] = await Commenting.getByIds([comment.parent]);
+    await notify([parent.author], NotificationType.REPLY, comment.author, comment.item);
+  } else {
+    const [post] = await Posting.getByIds([comment.item]);
+    await notify([post.author], NotificationType.COMMENT, comment.author, comment.item);
+  }
+}
+
+/**
+ * Format the comment threads, redacting the authors of deleted or hidden comments and of unlinked comments not by `user`.
+ */
+async function formatThreads(threads: CommentThread[], user?: ObjectId) {
+  const redacted = new Set<string>();
+  const findRedacted = async (threads: CommentThread[]): Promise<void> => {
+    await Promise.all(
+      threads.map(async ({ comment, replies }) => {
+        const isVisible = !comment.deleted && !comment.hidden && ((user && user.equals(comment.author)) || (await Linking.hasLink(comment.author, comment._id)));
+        if (!isVisible) redacted.add(comment._id.toString());
+        await findRedacted(replies);
+      }),
+    );
+  };
+  await findRedacted(threads);
+  const redact = (thread: CommentThread<FormattedComment>): CommentThread<FormattedComment | Omit<FormattedComment, "author">> => ({
+    ...thread,
+    comment: redacted.has(thread.comment._id.toString()) ? Commenting.redactAuthor(thread.comment) : thread.comment,
+    replies: thread.replies.map(redact),
+  });
+  return (await Responses.commentThreads(threads, user)).map(redact);
+}
+
+/**
+ * Read the page options of a list route from its `cursor` and `limit` parameters.
+ */
+function toPage(cursor?: string, limit?: string): PageOptions {
+  return { cursor, limit: limit ? Number(limit) : undefined };
 }
 
+/**
+ * Check an imported row against its metric, which is `defaultMetric` unless the row names one, reading its date in `timezone`.
+ * `batch` holds the days of the valid rows before it, see {@link Tracking.assertCanLog}.
+ * @returns The row's date, score and metric, or why it can't be imported
+ */
+async function checkImportRow(row: ImportRow, user: ObjectId, defaultMetric: MetricDoc, timezone: string, batch: Set<string>) {
+  try {
+    if (row.error !== undefined || row.date === undefined || row.score === undefined) throw new BadValuesError(row.error ?? "Row must have a date and a score!");
+    const metric = row.metric ? await Tracking.resolveMetric(row.metric, user) : defaultMetric;
+    const date = parseDate(row.date, timezone);
+    const score = Tracking.parseValue(metric, row.score);
+    await Tracking.assertCanLog(user, { date, score, metric }, timezone, batch);
+    return { line: row.line, date, score, metric, error: undefined };
+  } catch (e) {
+    if (!(e instanceof FormattableError)) throw e;
+    return { line: row.line, error: e.message };
+  }
+}
+
+function formatImportRow(row: Awaited<ReturnType<typeof checkImportRow>>) {
+  if (row.error !== undefined) return { line: row.line, error: row.error };
+  return { line: row.line, date: row.date, score: row.score, metric: row.metric.name };
+}
+
+/**
+ * Turn the `date` or `dateRange` (`start_end`) query parameters into a period of data. Calendar days are matched
+ * against the days the data was logged on, while full dates and times are read in `timezone`.
+ */
+function parsePeriod(date?: string, dateRange?: string, timezone?: string): DataPeriod | undefined {
+  if (date) return isDay(date) ? { days: [date, date] } : { dates: [parseDate(date, timezone), parseDate(date, timezone)] };
+  if (!dateRange) return undefined;
+  const [start, end] = dateRange.split("_");
+  if (isDay(start) && end !== undefined && isDay(end)) return { days: [start, end] };
+  return { dates: parseRange(dateRange, timezone) };
+}
+
+/**
+ * Hand `competition` off from `owner` to its first admin, or else its longest-standing other member,
+ * closing it if there is no one else.
+ */
+async function handOffCompetition(competition: CompetitionDoc, owner: ObjectId) {
+  const members = (await Joining.getMemberships(competition._id)).map((membership) => membership.user).filter((member) => !member.equals(owner));
+  const successor = members.find((member) => Competing.isAdmin(competition, member)) ?? members[0];
+  if (!successor) return await closeCompetition(competition._id);
+  return await Competing.transferOwnership(competition._id, successor);
+}
+
+/**
+ * Delete `competition` along with all of its memberships, teams, disputes and links.
+ */
+async function closeCompetition(competition: ObjectId) {
+  const competitionDeletion = await Competing.delete(competition);
+  await Promise.all([Joining.removeGroup(competition), Teaming.removeGroup(competition), Disputing.removeGroup(competition), Linking.deleteByItem(competition)]);
+  return competitionDeletion;
+}
+
+/**
+ * Whether `data` counts toward `competition`: it is of the competition's metric, dated within the competition's window,
+ * and logged by a member.
+ */
+async function countsToward(data: DataDoc, competition: CompetitionDoc) {
+  const [start, end] = Competing.getWindow(competition);
+  const sameMetric = (data.metric ?? DEFAULT_METRIC).equals(competition.metric ?? DEFAULT_METRIC);
+  return sameMetric && data.date >= start && data.date <= end && !data.hidden && (await Joining.isMember(data.user, competition._id));
+}
+
+/**
+ * Open a dispute on `data` in each active competition it counts toward if it deviates wildly from its owner's history,
+ * notifying the competition's admins.
+ */
+async function flagIfOutlier(data: DataDoc) {
+  if (!(await Tracking.isOutlier(data))) return;
+  const groups = (await Joining.getUserMemberships(data.user)).map((membership) => membership.group);
+  for (const competition of await Competing.getByIds(groups)) {
+    if (Competing.getStatus(competition) !== CompetitionStatus.ACTIVE || !(await countsToward(data, competition))) continue;
+    if (await Disputing.flag(competition._id, data._id, `Score ${data.score} is far from the usual scores of its owner`)) {
+      await notify(Competing.getAdmins(competition), NotificationType.DISPUTE_OPENED, undefined, competition._id, { competition: competition.name });
+    }
+  }
+}
+
+/**
+ * Run `change` on the tracked data of `user`, then notify the members of the user's active competitions
+ * whose rank it changed.
+ */
+async function withRankNotifications<T>(user: ObjectId, change: () => Promise<T>) {
+  const groups = (await Joining.getUserMemberships(user)).map((membership) => membership.group);
+  const competitions = (await Competing.getByIds(groups)).filter((competition) => Competing.getStatus(competition) === CompetitionStatus.ACTIVE);
+  const before = await Promise.all(competitions.map(getStandings));
+  const result = await change();
+  const after = await Promise.all(competitions.map(getStandings));
+  await Promise.all(
+    competitions.flatMap((competition, i) => {
+      const ranks = new Map(before[i].map((standing) => [standing.user.toString(), standing.rank]));
+      return after[i]
+        .filter((standing) => ranks.get(standing.user.toString()) !== standing.rank)
+        .map((standing) =>
+          notify([standing.user], NotificationType.RANK_CHANGE, user, competition._id, {
+            competition: competition.name,
+            from: ranks.get(standing.user.toString()) ?? null,
+            to: standing.rank,
+          }),
+        );
+    }),
+  );
+  return result;
+}
+
+/**
+ * The user ids listed in the comma-separated `ADMIN_USER_IDS` environment variable.
+ */
+function getAdminUserIds() {
+  return (process.env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id);
+}
+
+/**
+ * Hide the post, comment, data entry or competition `item` from everyone but moderators, or show it again.
+ */
+async function setItemHidden(type: string, item: ObjectId, hidden: boolean) {
+  switch (type) {
+    case "posts":
+      return await Posting.setHidden(item, hidden);
+    case "comments":
+      return await Commenting.setHidden(item, hidden);
+    case "data":
+      return await Tracking.setHidden(item, hidden);
+    case "competitions":
+      return await Competing.setHidden(item, hidden);
+    default:
+      throw new BadValuesError("Content type must be one of posts, comments, data or competitions!");
+  }
+}
+
+/**
+ * Delete all comments on `posts` along with their links and reactions.
+ * @returns The ids of the deleted comments
+ */
+async function removeCommentsOn(posts: ObjectId[]) {
+  const comments = (await Commenting.getByItems(posts)).map((comment) => comment._id);
+  await Promise.all([Linking.deleteByItems(comments), Reacting.deleteByItems(comments)]);
+  await Commenting.deleteByItems(posts);
+  return comments;
+}
+
+/**
+ * Delete the post, comment, data entry or competition `item` along with its links and reactions, and any disputes of a data entry.
+ */
+async function deleteItem(type: string, item: ObjectId) {
+  const removeLinksAndReactions = () => Promise.all([Linking.deleteByItem(item), Reacting.deleteByItems([item])]);
+  switch (type) {
+    case "posts":
+      await Posting.assertPostExists(item);
+      await removeCommentsOn([item]);
+      await removeLinksAndReactions();
+      return await Posting.delete(item);
+    case "comments":
+      await Commenting.assertCommentExists(item);
+      await removeLinksAndReactions();
+      return await Commenting.delete(item);
+    case "data":
+      await Tracking.assertDataExists(item);
+      await Promise.all([removeLinksAndReactions(), Disputing.removeItems([item])]);
+      return await Tracking.delete(item);
+    case "competitions":
+      await Competing.getById(item);
+      return await closeCompetition(item);
+    default:
+      throw new BadValuesError("Content type must be one of posts, comments, data or competitions!");
+  }
+}
+
+/**
+ * Assert that the post, comment, data entry or competition `item` exists and that `user` can see it.
+ */
+async function assertItemVisible(type: string, item: ObjectId, user: ObjectId) {
+  switch (type) {
+    case "posts":
+      return await Posting.assertViewerCanSee(item, await getPostViewer(user));
+    case "comments": {
+      const comment = await Commenting.assertCommentExists(item);
+      return await Posting.assertViewerCanSee(comment.item, await getPostViewer(user));
+    }
+    case "data":
+      return await Tracking.assertDataExists(item);
+    case "competitions":
+      return void (await Competing.getById(item));
+    default:
+      throw new BadValuesError("Content type must be one of posts, comments, data or competitions!");
+  }
+}
+
+// Suspended users are logged out on their next request, whatever route it is for.
+Router.registerGuard("notSuspended", async (session) => {
+  if (!Sessioning.isLoggedIn(session)) return;
+  try {
+    await Authing.assertIsNotSuspended(Sessioning.getUser(session));
+  } catch (e) {
+    Sessioning.end(session);
+    throw e;
+  }
+});
+Router.registerGuard("moderator", (session) => Authing.assertHasRole(Sessioning.getUser(session), Role.MODERATOR));
+Router.registerGuard("admin", (session) => Authing.assertHasRole(Sessioning.getUser(session), Role.ADMIN));
+
 /** The web app. */
 export const app = new Routes();
 
 /** The Express router. */
-export const appRouter = getExpressRouter(app);
+export const appRouter = getExpressRouter(app, ["notSuspended"]);
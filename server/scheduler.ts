@@ -0,0 +1,136 @@
+import { Competing, Joining, Notifying, Recurring, Teaming } from "./app";
+import { CompetitionNotice } from "./concepts/competing";
+import { NotificationType } from "./concepts/notifying";
+import { SeriesDoc } from "./concepts/recurring";
+import { getStandings } from "./standings";
+
+/**
+ * How often to check for series whose latest competition has ended, and for competitions to tell members about.
+ */
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+/**
+ * How long before its end members are reminded that a competition is about to end, and for how long after its end
+ * they are still told that it ended.
+ */
+const NOTICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start creating the next competition of every series once its latest one ends and telling members when
+ * their competitions are about to end and have ended, checking periodically.
+ * @returns A function that stops the scheduler
+ */
+export function startScheduler(intervalMs = SCHEDULER_INTERVAL_MS) {
+  let stopped = false;
+  let timer: NodeJS.Timeout;
+  // Each run is scheduled once the previous one finished, so that a slow run never overlaps the next
+  const schedule = () => {
+    timer = setTimeout(async () => {
+      await runScheduledTasks();
+      if (!stopped) schedule();
+    }, intervalMs);
+  };
+  schedule();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+async function runScheduledTasks() {
+  try {
+    await renewSeries();
+    await sendCompetitionNotices();
+  } catch (e) {
+    console.error("Scheduled tasks failed:", e);
+  }
+}
+
+/**
+ * Remind the members of every competition ending within a day that it is about to end, and tell those of every
+ * competition that ended within the last day their rank, each once. Competitions that fail are logged and retried
+ * on the next run unless their notice was already recorded.
+ * @returns The number of notices sent
+ */
+export async function sendCompetitionNotices(now = new Date()) {
+  let sent = 0;
+  for (const competition of await Competing.getEndingSoon(now, NOTICE_WINDOW_MS)) {
+    try {
+      if (!(await Competing.markNoticeSent(competition._id, CompetitionNotice.ENDING))) continue;
+      const members = await Joining.getMembers(competition._id);
+      await Notifying.notify(members, NotificationType.COMPETITION_ENDING, undefined, competition._id, { competition: competition.name, endDate: competition.endDate.toISOString() });
+      sent++;
+    } catch (e) {
+      console.error(`Failed to remind members of competition ${competition.name}:`, e);
+    }
+  }
+  for (const competition of await Competing.getRecentlyEnded(now, NOTICE_WINDOW_MS)) {
+    try {
+      if (!(await Competing.markNoticeSent(competition._id, CompetitionNotice.ENDED))) continue;
+      const standings = await getStandings(competition);
+      await Promise.all(
+        standings.map((standing) => Notifying.notify([standing.user], NotificationType.COMPETITION_ENDED, undefined, competition._id, { competition: competition.name, rank: standing.rank })),
+      );
+      sent++;
+    } catch (e) {
+      console.error(`Failed to tell members of competition ${competition.name} that it ended:`, e);
+    }
+  }
+  return sent;
+}
+
+/**
+ * Create the next competition of every series whose latest competition ended by `now`.
+ * A series that fails to renew is logged and retried on the next run.
+ * @returns The number of competitions created
+ */
+export async function renewSeries(now = new Date()) {
+  let created = 0;
+  for (const series of await Recurring.getDue(now)) {
+    try {
+      if (await createNextInstance(series, now)) created++;
+    } catch (e) {
+      console.error(`Failed to renew series ${series.name}:`, e);
+    }
+  }
+  return created;
+}
+
+/**
+ * Create the next competition of `series` with the same owner, settings, admins, members and teams as the latest one.
+ * The series stops if its latest competition was deleted, and is rescheduled instead if that competition was extended.
+ * If a previous run created the next competition but failed before recording it, that competition is finished instead.
+ */
+async function createNextInstance(series: SeriesDoc, now: Date) {
+  const [latest] = await Competing.getByIds([series.instances[series.instances.length - 1]]);
+  if (!latest) {
+    await Recurring.stop(series._id);
+    return false;
+  }
+  if (latest.endDate > now) {
+    await Recurring.reschedule(series._id, latest.endDate);
+    return false;
+  }
+
+  const name = Recurring.getInstanceName(series.name, series.instances.length + 1);
+  let competition = await Competing.findByName(name);
+  if (competition && !competition.owner.equals(latest.owner)) throw new Error(`Competition ${name} already exists outside of series ${series.name}`);
+  if (!competition) {
+    const [startDate, endDate] = Recurring.getNextWindow({ ...series, latestEndDate: latest.endDate }, now, latest.timezone);
+    competition = (await Competing.create(latest.owner, name, endDate, latest.scoring, startDate, latest.joinPolicy, latest.metric, latest.timezone)).competition;
+  }
+
+  // Every step skips what a failed previous run already did
+  for (const membership of await Joining.getMemberships(latest._id)) {
+    if (!(await Joining.isMember(membership.user, competition._id))) await Joining.join(membership.user, competition._id);
+  }
+  for (const admin of latest.admins ?? []) {
+    if (!Competing.isAdmin(competition, admin)) await Competing.addAdmin(competition._id, admin);
+  }
+  if (latest.teams) {
+    await Competing.setTeamOptions(competition._id, latest.teams.scoring, latest.teams.maxSize, latest.teams.locked);
+    if ((await Teaming.getTeams(competition._id)).length === 0) await Teaming.copyTeams(latest._id, competition._id);
+  }
+  await Recurring.addInstance(series._id, competition._id, competition.endDate);
+  return true;
+}
@@ -0,0 +1,33 @@
+import { Competing, Disputing, Joining, Tracking } from "./app";
+import { CompetitionDoc } from "./concepts/competing";
+import { MetricDirection } from "./concepts/tracking";
+
+/**
+ * Synchronizations that rank competitions, shared by the routes, the event streams and the scheduler
+ * so that they all agree on the standings.
+ */
+
+/**
+ * Get the tracked data of `competition`'s members of the competition's metric dated within the competition's window,
+ * leaving out rejected entries and using the adjusted score of adjusted ones.
+ */
+async function getEligibleData(competition: CompetitionDoc) {
+  const members = await Joining.getMembers(competition._id);
+  const data = await Tracking.getByUsersInRange(members, Competing.getWindow(competition), competition.metric);
+  return await Disputing.applyOutcomes(competition._id, data);
+}
+
+/**
+ * Whether lower scores are better for the metric of `competition`.
+ */
+export async function isLowerBetter(competition: CompetitionDoc) {
+  return (await Tracking.getMetric(competition.metric)).direction === MetricDirection.LOWER;
+}
+
+/**
+ * Rank the members of `competition` using their eligible data.
+ */
+export async function getStandings(competition: CompetitionDoc) {
+  const [members, data, lowerIsBetter] = await Promise.all([Joining.getMembers(competition._id), getEligibleData(competition), isLowerBetter(competition)]);
+  return Competing.getStandings(competition, members, data, lowerIsBetter);
+}
@@ -1,5 +1,7 @@
 import { strict as assert } from "assert";
 import dotenv from "dotenv";
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
 import process from "process";
 
 // Make sure we are in test mode!
@@ -8,10 +10,18 @@ process.env.TEST = "true";
 // Also need to load the .env file
 dotenv.config();
 
+import { Role } from "../server/concepts/authenticating";
+import { PostVisibility } from "../server/concepts/posting";
 import type { SessionDoc } from "../server/concepts/sessioning";
 
 // Test mode must be set before importing the routes
-import { app } from "../server/routes";
+import { app, appRouter } from "../server/routes";
+
+import { Authing, Commenting, Competing, Joining, Linking, Posting, Reacting, Recurring, Tracking } from "../server/app";
+import { streamEvents } from "../server/events";
+import EventBus from "../server/framework/events";
+import Responses from "../server/responses";
+import { renewSeries, sendCompetitionNotices } from "../server/scheduler";
 
 import db, { client } from "../server/db";
 if (db.databaseName !== "test-db") {
@@ -23,6 +33,73 @@ function getEmptySession() {
   return { cookie: {} } as SessionDoc;
 }
 
+// Stands in for the response of `GET /api/events`, collecting the events pushed down the stream
+class MockEventStream extends EventEmitter {
+  statusCode = 200;
+  ended = false;
+  events: { event: string; data: unknown }[] = [];
+
+  writeHead() {
+    return this;
+  }
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  json() {
+    return this;
+  }
+
+  write(chunk: string) {
+    const match = /^event: (.*)\ndata: (.*)\n\n$/.exec(chunk);
+    if (match) this.events.push({ event: match[1], data: JSON.parse(match[2]) });
+    return true;
+  }
+
+  end() {
+    this.ended = true;
+    this.emit("close");
+    return this;
+  }
+}
+
+async function openEventStream(session: SessionDoc) {
+  const req = Object.assign(new EventEmitter(), { session });
+  const res = new MockEventStream();
+  await streamEvents(req as unknown as Request, res as unknown as Response);
+  return { res, close: () => req.emit("close") };
+}
+
+// Calling `app` directly skips the guards, so send a request through the Express router to check them
+function callRoute(session: SessionDoc, method: string, url: string, body: Record<string, string> = {}) {
+  return new Promise<{ status: number; body: unknown }>((resolve, reject) => {
+    const req = { method, url, session, query: {}, body };
+    const res = {
+      statusCode: 200,
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json(result: unknown) {
+        resolve({ status: this.statusCode, body: result });
+        return this;
+      },
+    };
+    appRouter(req as unknown as Request, res as unknown as Response, () => reject(new Error(`No route for ${method} ${url}`)));
+  });
+}
+
+// Subscribers run after the action that published their event, so wait for them
+async function eventually(check: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for an event");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
 // Before each test...
 beforeEach(async () => {
   // Drop the test database
@@ -64,6 +141,1213 @@ describe("Create a user and log in", () => {
   });
 });
 
+describe("Password storage", () => {
+  it("should not store plaintext passwords", async () => {
+    const created = await app.createUser(getEmptySession(), "barish", "1234");
+    assert(created.user);
+    const stored = await Authing.users.collection.findOne({ username: "barish" });
+    assert(stored);
+    assert.equal((stored as { password?: string }).password, undefined);
+    assert.notEqual(stored.passwordHash, "1234");
+    assert(stored.passwordSalt);
+  });
+
+  it("should rehash legacy plaintext passwords on login", async () => {
+    await Authing.users.collection.insertOne({ username: "legacy", password: "legacy123" } as never);
+    await assert.rejects(app.logIn(getEmptySession(), "legacy", "wrong"));
+    const before = await Authing.users.collection.findOne({ username: "legacy" });
+    assert.equal(before?.passwordHash, undefined, "Failed logins should not migrate the row");
+
+    await app.logIn(getEmptySession(), "legacy", "legacy123");
+    const after = await Authing.users.collection.findOne({ username: "legacy" });
+    assert(after?.passwordHash);
+    assert.equal((after as { password?: string }).password, undefined);
+    await app.logIn(getEmptySession(), "legacy", "legacy123");
+  });
+
+  it("should update a hashed password", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    await assert.rejects(app.updatePassword(session, "wrong", "alice456"));
+    await app.updatePassword(session, "alice123", "alice456");
+    await app.logOut(session);
+    await assert.rejects(app.logIn(session, "alice", "alice123"));
+    await app.logIn(session, "alice", "alice456");
+  });
+});
+
+describe("Data statistics", () => {
+  it("should summarize the user's data with streaks and rollups", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    for (const [date, score] of [
+      ["2024-01-01", "1"],
+      ["2024-01-02", "5"],
+      ["2024-01-03", "3"],
+      ["2024-01-05", "7"],
+      ["2024-02-01", "4"],
+    ]) {
+      await app.logData(session, "false", date, score);
+    }
+
+    const stats = await app.getDataStats(session);
+    assert.deepEqual([stats.count, stats.mean, stats.median, stats.best, stats.worst], [5, 4, 4, 7, 1]);
+    assert.equal(stats.stdDev, 2);
+    assert.deepEqual([stats.longestStreak, stats.currentStreak], [3, 0]);
+    assert.deepEqual(
+      stats.monthly.map((m) => [m.start.toISOString().slice(0, 10), m.count, m.total]),
+      [
+        ["2024-01-01", 4, 16],
+        ["2024-02-01", 1, 4],
+      ],
+    );
+    assert.equal(stats.weekly.length, 2);
+
+    const january = await app.getDataStats(session, undefined, "2024-01-01_2024-01-31");
+    assert.deepEqual([january.count, january.median], [4, 4]);
+  });
+});
+
+describe("Timezones", () => {
+  it("should group data by the calendar days of the user's timezone", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    await assert.rejects(app.updateTimezone(session, "Mars/Olympus_Mons"), "Unknown timezones should be rejected");
+    await app.updateTimezone(session, "America/New_York");
+
+    // 03:00 UTC on March 5th is still March 4th in New York
+    await app.logData(session, "false", "2024-03-05T03:00:00Z", "4");
+    const logged = await app.logData(session, "false", "2024-03-05", "6");
+    assert.equal(logged.data.date.toISOString(), "2024-03-05T05:00:00.000Z", "Calendar days should start at midnight in the user's timezone");
+
+    const tuesday = await app.getData(session, "alice", "2024-03-05");
+    assert.deepEqual(
+      tuesday.items.map((d) => d.score),
+      [6],
+    );
+    const stats = await app.getDataStats(session);
+    assert.equal(stats.longestStreak, 2);
+  });
+
+  it("should end competitions at the end of the day in their timezone", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    const { competition } = await app.createCompetition(session, "false", "tokyo", "2099-01-01", "sum", undefined, undefined, undefined, "Asia/Tokyo");
+    assert.equal(competition.endDate.toISOString(), "2099-01-01T14:59:59.999Z");
+  });
+
+  it("should count days of data in the timezone of each member", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    await app.updateTimezone(session, "America/New_York");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(session, "false", "streaks", endDate, "days", "2024-01-01");
+
+    // Both entries fall on March 5th in UTC, but on March 4th and 5th in New York
+    await app.logData(session, "false", "2024-03-05T03:00:00Z", "4");
+    await app.logData(session, "false", "2024-03-05", "6");
+    const leaderboard = await app.getCompetitionLeaderboard(getEmptySession(), "streaks");
+    assert.deepEqual(
+      leaderboard.map((s) => [s.user, s.score]),
+      [["alice", 2]],
+    );
+  });
+});
+
+describe("Metrics", () => {
+  it("should keep the data of each metric apart and rank by the competition's metric", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+
+    const { metric: fiveK } = await app.createMetric(alice, "5K", "lower", "duration", "seconds");
+    await assert.rejects(app.createMetric(alice, "time", "lower", "duration"), "System metric names should be taken");
+    await assert.rejects(app.logData(bob, "false", "2024-01-01", "20:00", "5K"), "Other users' metrics should not be usable");
+    await assert.rejects(app.logData(bob, "false", "2024-01-01", "20:00", fiveK._id.toString()), "Other users' metrics should not be usable by id");
+
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "parkrun", endDate, "best", "2024-01-01", undefined, "time");
+    await app.joinCompetition(bob, "false", "parkrun");
+    await app.logData(alice, "false", "2024-01-01", "25:30", "time");
+    await app.logData(bob, "false", "2024-01-01", "24:10", "time");
+    await app.logData(bob, "false", "2024-01-02", "1:00:00", "time");
+    await app.logData(alice, "false", "2024-01-02", "1");
+
+    const leaderboard = await app.getCompetitionLeaderboard(getEmptySession(), "parkrun");
+    assert.deepEqual(
+      leaderboard.map((s) => [s.rank, s.user, s.score]),
+      [
+        [1, "bob", 1450],
+        [2, "alice", 1530],
+      ],
+      "Only data of the competition's metric should count, and lower times should rank first",
+    );
+
+    const times = await app.getData(alice, "alice", undefined, undefined, undefined, "time");
+    assert.deepEqual(
+      times.items.map((d) => d.score),
+      [1530],
+    );
+    const stats = await app.getDataStats(bob, "time");
+    assert.deepEqual([stats.best, stats.worst], [1450, 3600]);
+  });
+});
+
+describe("Entry rules", () => {
+  it("should validate entries and enforce the metric's per-day policy", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+
+    await assert.rejects(app.logData(session, "false", "2024-01-01", "abc"), "Scores that aren't numbers should be rejected");
+    await assert.rejects(app.logData(session, "false", "not a date", "4"), "Invalid dates should be rejected");
+    await assert.rejects(app.logData(session, "false", new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), "4"), "Future dates should be rejected");
+
+    const { metric } = await app.createMetric(session, "wordle", "lower", "integer", "guesses", "1", "6", undefined, undefined, "reject");
+    await assert.rejects(app.logData(session, "false", "2024-01-01", "7", "wordle"), "Scores above the maximum should be rejected");
+    await app.logData(session, "false", "2024-01-01T08:00:00Z", "4", "wordle");
+    await assert.rejects(app.logData(session, "false", "2024-01-01T20:00:00Z", "3", "wordle"), "A second entry of the same day should be rejected");
+    const other = await app.logData(session, "false", "2024-01-02", "5", "wordle");
+    await assert.rejects(app.updateData(session, other.data._id.toString(), "2024-01-01"), "Moving an entry onto a taken day should be rejected");
+
+    await app.updateMetricRules(session, metric._id.toString(), "1", "6", undefined, undefined, "replace");
+    await app.logData(session, "false", "2024-01-01T20:00:00Z", "3", "wordle");
+    const data = await app.getData(session, "alice", undefined, undefined, "date", "wordle");
+    assert.deepEqual(
+      data.items.map((d) => d.score),
+      [5, 3],
+      "The entry of the same day should be replaced",
+    );
+  });
+});
+
+describe("Competition leaderboards", () => {
+  it("should rank members with the competition's scoring rule", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "golf", endDate, "lowest", "2024-01-01");
+    await app.joinCompetition(bob, "false", "golf");
+    await app.logData(alice, "false", "2024-01-01", "4");
+    await app.logData(alice, "false", "2024-01-02", "3");
+    await app.logData(bob, "false", "2024-01-01", "5");
+
+    const leaderboard = await app.getCompetitionLeaderboard(getEmptySession(), "golf");
+    assert.deepEqual(
+      leaderboard.map((s) => [s.rank, s.user, s.score]),
+      [
+        [1, "bob", 5],
+        [2, "alice", 7],
+      ],
+    );
+  });
+
+  it("should reject unknown scoring rules", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await assert.rejects(app.createCompetition(session, "false", "bad", endDate, "median"));
+  });
+});
+
+describe("Competition lifecycle", () => {
+  it("should reject data dated before the competition started", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(session, "false", "recent", endDate, "sum", new Date().toISOString());
+    await app.logData(session, "false", "2024-01-01", "4");
+
+    assert.equal((await app.getCompetitionData(getEmptySession(), "recent")).items.length, 0);
+    assert.equal((await app.getCompetitionLeaderboard(getEmptySession(), "recent"))[0].score, null);
+  });
+
+  it("should count data logged before joining and reflect edits", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const logged = await app.logData(bob, "false", "2024-01-02", "6");
+    await app.logData(bob, "false", "2023-12-31", "9");
+
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "retro", endDate, "sum", "2024-01-01");
+    await app.joinCompetition(bob, "false", "retro");
+    assert.deepEqual(
+      (await app.getCompetitionData(getEmptySession(), "retro")).items.map((d) => d.score),
+      [6],
+    );
+
+    await app.updateData(bob, logged.data._id.toString(), undefined, "8");
+    assert.equal((await app.getCompetitionLeaderboard(getEmptySession(), "retro"))[0].score, 8);
+    await app.deleteData(bob, logged.data._id.toString());
+    assert.equal((await app.getCompetitionData(getEmptySession(), "retro")).items.length, 0);
+  });
+
+  it("should finalize an ended competition into immutable results", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(session, "false", "weekly", endDate, "sum", "2024-01-01");
+    await app.logData(session, "false", "2024-01-02", "4");
+    await assert.rejects(app.finalizeCompetition(session, "weekly"), "Active competitions cannot be finalized");
+
+    const competition = await Competing.getByName("weekly");
+    await Competing.competitions.partialUpdateOne({ _id: competition._id }, { endDate: new Date(Date.now() - 1000) });
+    const past = await app.getPastCompetitions(session);
+    assert.deepEqual(
+      past.items.map((c) => [c.name, c.status]),
+      [["weekly", "ended"]],
+    );
+
+    const finalization = await app.finalizeCompetition(session, "weekly");
+    assert.deepEqual(finalization.result.winners, ["alice"]);
+    await assert.rejects(app.finalizeCompetition(session, "weekly"), "Competitions are finalized only once");
+    assert.equal((await app.getCompetitionResults(getEmptySession(), "weekly")).standings[0].score, 4);
+  });
+
+  it("should record results once when finalized concurrently", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(session, "false", "daily", endDate, "sum", "2024-01-01");
+    const competition = await Competing.getByName("daily");
+    await Competing.competitions.partialUpdateOne({ _id: competition._id }, { endDate: new Date(Date.now() - 1000) });
+
+    const finalizations = await Promise.allSettled([app.finalizeCompetition(session, "daily"), app.finalizeCompetition(session, "daily")]);
+    assert.deepEqual(finalizations.map((f) => f.status).sort(), ["fulfilled", "rejected"]);
+    assert.equal(await Competing.results.count({ competition: competition._id }), 1);
+  });
+});
+
+describe("Competition join policies", () => {
+  it("should require the owner's approval to join request-to-join competitions", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "club", endDate, "sum", undefined, "request");
+
+    await app.joinCompetition(bob, "false", "club");
+    assert.deepEqual(await Joining.getMembers((await Competing.getByName("club"))._id), [(await Authing.getUserByUsername("alice"))._id]);
+    await assert.rejects(app.getJoinRequests(bob, "club"), "Only the owner should see join requests");
+    assert.deepEqual(
+      (await app.getJoinRequests(alice, "club")).items.map((r) => r.user),
+      ["bob"],
+    );
+
+    await app.acceptJoinRequest(alice, "club", "bob");
+    assert.equal((await app.getJoinRequests(alice, "club")).items.length, 0);
+    await app.kickCompetitionMember(alice, "club", "bob");
+    await assert.rejects(app.kickCompetitionMember(alice, "club", "alice"), "Owners should not remove themselves");
+  });
+
+  it("should only let users with a valid invite join invite-only competitions", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "secret", endDate, "sum", undefined, "invite");
+    assert.equal((await app.getCompetitions(bob)).items.length, 0, "Invite-only competitions should be unlisted");
+    await assert.rejects(app.joinCompetition(bob, "false", "secret"));
+    for (const session of [bob, getEmptySession()]) {
+      await assert.rejects(app.getCompetitionLeaderboard(session, "secret"), "Non-members should not see the standings of invite-only competitions");
+      await assert.rejects(app.getCompetitionData(session, "secret"));
+      await assert.rejects(app.getCompetitionMembers(session, "secret"));
+      await assert.rejects(app.getCompetitionResults(session, "secret"));
+    }
+    await app.getCompetitionLeaderboard(alice, "secret");
+
+    const { invite } = await app.createCompetitionInvite(alice, "secret", undefined, "1");
+    await app.createUser(getEmptySession(), "carol", "carol123");
+    const carol = getEmptySession();
+    await app.logIn(carol, "carol", "carol123");
+    await app.joinCompetition(bob, "false", "secret", invite.code);
+    await assert.rejects(app.joinCompetition(carol, "false", "secret", invite.code), "Invites should not be used more than allowed");
+    assert.equal((await app.getCompetitions(bob)).items.length, 1);
+    await app.getCompetitionLeaderboard(bob, "secret");
+  });
+});
+
+describe("Competition ownership", () => {
+  it("should let admins manage members but keep ownership with the owner", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "relay", endDate);
+    await assert.rejects(app.addCompetitionAdmin(alice, "relay", "bob"), "Admins should be members");
+    await app.joinCompetition(bob, "false", "relay");
+    await assert.rejects(app.transferCompetition(bob, "relay", "bob"), "Only the owner should transfer the competition");
+
+    await app.addCompetitionAdmin(alice, "relay", "bob");
+    await app.updateCompetition(bob, "relay", undefined, undefined, undefined, "request");
+    await assert.rejects(app.kickCompetitionMember(bob, "relay", "alice"), "Admins should not remove the owner");
+    await assert.rejects(app.deleteCompetition(bob, "relay"), "Admins should not delete the competition");
+
+    const transfer = await app.transferCompetition(alice, "relay", "bob");
+    assert.equal(transfer.competition.owner, "bob");
+    assert.deepEqual(transfer.competition.admins, ["alice"], "The previous owner should stay on as an admin");
+  });
+
+  it("should hand the competition off when the owner leaves", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "baton", endDate);
+    await app.joinCompetition(bob, "false", "baton");
+
+    await app.leaveCompetition(alice, "baton");
+    assert.equal((await Competing.getByName("baton")).owner.toString(), (await Authing.getUserByUsername("bob"))._id.toString());
+    await app.leaveCompetition(bob, "baton");
+    await assert.rejects(Competing.getByName("baton"), "Competitions with no one left should be closed");
+  });
+});
+
+describe("Competition teams", () => {
+  it("should rank teams by their members' scores", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.createUser(getEmptySession(), "carol", "carol123");
+    const carol = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    await app.logIn(carol, "carol", "carol123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "departments", endDate, "sum", "2024-01-01");
+    await app.joinCompetition(bob, "false", "departments");
+    await app.joinCompetition(carol, "false", "departments");
+    await assert.rejects(app.createCompetitionTeam(alice, "departments", "sales"), "Competitions should not have teams until enabled");
+
+    await app.setCompetitionTeamOptions(alice, "departments", "average", "2");
+    await app.createCompetitionTeam(alice, "departments", "sales");
+    await app.createCompetitionTeam(alice, "departments", "support");
+    await app.joinCompetitionTeam(alice, "departments", "sales");
+    await app.joinCompetitionTeam(bob, "departments", "sales");
+    await assert.rejects(app.joinCompetitionTeam(carol, "departments", "sales"), "Teams should not exceed their maximum size");
+    await app.joinCompetitionTeam(carol, "departments", "support");
+    await app.logData(alice, "false", "2024-01-02", "2");
+    await app.logData(bob, "false", "2024-01-02", "4");
+    await app.logData(carol, "false", "2024-01-02", "5");
+
+    const leaderboard = await app.getCompetitionTeamLeaderboard(getEmptySession(), "departments");
+    assert.deepEqual(
+      leaderboard.map((t) => [t.name, t.score, t.members.map((m) => m.user)]),
+      [
+        ["support", 5, ["carol"]],
+        ["sales", 3, ["bob", "alice"]],
+      ],
+    );
+
+    await app.setCompetitionTeamOptions(alice, "departments", "average", "2", "true");
+    await assert.rejects(app.leaveCompetitionTeam(bob, "departments", "sales"), "Teams should be locked once the competition started");
+  });
+
+  it("should not let idle members help their team", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.createUser(getEmptySession(), "carol", "carol123");
+    const carol = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    await app.logIn(carol, "carol", "carol123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "golf club", endDate, "lowest", "2024-01-01");
+    await app.joinCompetition(bob, "false", "golf club");
+    await app.joinCompetition(carol, "false", "golf club");
+    await app.setCompetitionTeamOptions(alice, "golf club", "sum");
+    await app.createCompetitionTeam(alice, "golf club", "eagles");
+    await app.createCompetitionTeam(alice, "golf club", "birdies");
+    await app.joinCompetitionTeam(alice, "golf club", "eagles");
+    await app.joinCompetitionTeam(bob, "golf club", "eagles");
+    await app.joinCompetitionTeam(carol, "golf club", "birdies");
+    await app.logData(alice, "false", "2024-01-02", "2");
+    await app.logData(carol, "false", "2024-01-02", "3");
+
+    const summed = await app.getCompetitionTeamLeaderboard(getEmptySession(), "golf club");
+    assert.deepEqual(
+      summed.map((t) => [t.name, t.score]),
+      [
+        ["birdies", 3],
+        ["eagles", 5],
+      ],
+      "Idle members should count as the worst score when the lowest sum wins",
+    );
+
+    await app.setCompetitionTeamOptions(alice, "golf club", "average");
+    const averaged = await app.getCompetitionTeamLeaderboard(getEmptySession(), "golf club");
+    assert.deepEqual(
+      averaged.map((t) => [t.name, t.score]),
+      [
+        ["eagles", 2],
+        ["birdies", 3],
+      ],
+      "Idle members should not count toward the average",
+    );
+  });
+});
+
+describe("Recurring competitions", () => {
+  it("should create the next competition with the same members when one ends", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const { competition } = await app.createSeries(alice, "Weekly Wordle", "weekly", "average");
+    await app.joinCompetition(bob, "false", competition.name);
+    assert.equal(await renewSeries(), 0, "Series should not renew before their competition ends");
+
+    const ended = new Date(Date.now() - 1000);
+    await Competing.competitions.partialUpdateOne({ _id: competition._id }, { endDate: ended });
+    await Recurring.reschedule((await Recurring.getByName("Weekly Wordle"))._id, ended);
+    assert.equal(await renewSeries(), 1);
+
+    const next = await Competing.getByName("Weekly Wordle #2");
+    assert.equal(next.startDate.getTime(), ended.getTime(), "The next competition should start when the previous one ended");
+    assert.equal(next.scoring, "average");
+    assert.equal((await Joining.getMembers(next._id)).length, 2);
+    assert.deepEqual(
+      (await app.getSeriesHistory("Weekly Wordle")).competitions.map((c) => c.name),
+      ["Weekly Wordle #1", "Weekly Wordle #2"],
+    );
+  });
+
+  it("should finish the next competition when a failed renewal created it without recording it", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const { competition } = await app.createSeries(alice, "Daily Wordle", "daily");
+    await app.joinCompetition(bob, "false", competition.name);
+    const ended = new Date(Date.now() - 1000);
+    await Competing.competitions.partialUpdateOne({ _id: competition._id }, { endDate: ended });
+    await Recurring.reschedule((await Recurring.getByName("Daily Wordle"))._id, ended);
+
+    // A previous run got as far as creating the competition
+    await Competing.create((await Authing.getUserByUsername("alice"))._id, "Daily Wordle #2", new Date(Date.now() + 24 * 60 * 60 * 1000));
+    assert.equal(await renewSeries(), 1);
+    assert.equal(await renewSeries(), 0, "The finished competition should be recorded");
+
+    const next = await Competing.getByName("Daily Wordle #2");
+    assert.equal((await Joining.getMembers(next._id)).length, 2);
+    assert.deepEqual(
+      (await app.getSeriesHistory("Daily Wordle")).competitions.map((c) => c.name),
+      ["Daily Wordle #1", "Daily Wordle #2"],
+    );
+  });
+});
+
+describe("Data import", () => {
+  it("should preview CSV rows with their errors and then log the valid ones", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    const csv = ["Date,Score", "2024-01-01,4", "2024-01-02,lots", "2024-01-03,6", ""].join("\n");
+
+    const preview = await app.importData(session, "csv", csv, undefined, "true");
+    assert.deepEqual(
+      preview.rows.map((row) => [row.line, row.error === undefined]),
+      [
+        [2, true],
+        [3, false],
+        [4, true],
+      ],
+    );
+    assert.equal((await app.getData(session, "alice")).items.length, 0, "A dry run should not log anything");
+
+    const imported = await app.importData(session, "csv", csv, undefined, "false", "true");
+    assert.equal(imported.rows.filter((row) => "data" in row).length, 2);
+    assert.equal((await app.getData(session, "alice")).items.length, 2);
+    assert.equal((await app.getUserDataLinks("alice")).items.length, 2);
+  });
+
+  it("should preview same-day duplicates the way they are imported", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    await app.createMetric(session, "weigh-in", "lower", "decimal", "kg", undefined, undefined, undefined, undefined, "reject");
+    await app.logData(session, "false", "2024-01-01", "80", "weigh-in");
+    const csv = ["Date,Score", "2024-01-01,79", "2024-01-02,79", "2024-01-02,78"].join("\n");
+
+    const preview = await app.importData(session, "csv", csv, "weigh-in", "true");
+    const imported = await app.importData(session, "csv", csv, "weigh-in");
+    assert.deepEqual(
+      preview.rows.map((row) => [row.line, row.error === undefined]),
+      [
+        [2, false],
+        [3, true],
+        [4, false],
+      ],
+      "Rows on a day that already has an entry, in the data or earlier in the text, should not preview as valid",
+    );
+    assert.deepEqual(
+      imported.rows.map((row) => [row.line, "data" in row]),
+      preview.rows.map((row) => [row.line, row.error === undefined]),
+    );
+  });
+
+  it("should read the day and guesses out of Wordle share text", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    await app.createMetric(session, "wordle", "lower", "integer", "guesses", "1", "7");
+    const text = ["Wordle 1,000 3/6", "", "⬛🟨⬛⬛⬛", "🟩🟩🟩🟩🟩", "Wordle 1,001 X/6"].join("\n");
+
+    const { rows } = await app.importData(session, "wordle", text, "wordle");
+    assert.deepEqual(
+      rows.map((row) => ["date" in row ? row.date?.toISOString() : undefined, "score" in row ? row.score : undefined]),
+      [
+        ["2024-03-15T00:00:00.000Z", 3],
+        ["2024-03-16T00:00:00.000Z", 7],
+      ],
+    );
+    await assert.rejects(app.importData(session, "tetris", text), "Unknown formats should be rejected");
+  });
+});
+
+describe("Disputes", () => {
+  it("should flag outliers and apply dispute outcomes to the standings", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "fair play", endDate, "sum", "2024-01-01");
+    await app.joinCompetition(bob, "false", "fair play");
+    const first = await app.logData(bob, "false", "2024-01-01", "4");
+    for (const date of ["2024-01-02", "2024-01-03", "2024-01-04", "2024-01-05"]) {
+      await app.logData(bob, "false", date, "4");
+    }
+    await app.logData(bob, "false", "2024-01-06", "40");
+
+    const flagged = await app.getDisputes(alice, "fair play", "open");
+    assert.equal(flagged.items.length, 1, "The outlier should be flagged automatically");
+    assert.equal(flagged.items[0].opener, null);
+    await assert.rejects(app.resolveDispute(bob, "fair play", flagged.items[0]._id.toString(), "rejected"), "Only admins should resolve disputes");
+    await app.resolveDispute(alice, "fair play", flagged.items[0]._id.toString(), "rejected");
+
+    const { dispute } = await app.openDispute(alice, "fair play", first.data._id.toString(), "Logged before the puzzle came out");
+    await assert.rejects(app.openDispute(bob, "fair play", first.data._id.toString(), "Again"), "An entry should only have one open dispute");
+    await app.resolveDispute(alice, "fair play", dispute._id.toString(), "adjusted", "2");
+
+    const leaderboard = await app.getCompetitionLeaderboard(getEmptySession(), "fair play");
+    assert.equal(leaderboard.find((s) => s.user === "bob")?.score, 18, "Rejected entries should not count and adjusted ones should count with their new score");
+    const trail = await app.getDisputes(bob, "fair play");
+    assert.deepEqual(
+      trail.items.map((d) => [d.status, d.data?.score]),
+      [
+        ["adjusted", 4],
+        ["rejected", 40],
+      ],
+      "Resolved disputes should stay visible with the original entries",
+    );
+
+    await app.deleteContent("data", first.data._id.toString());
+    assert.deepEqual(
+      (await app.getDisputes(bob, "fair play")).items.map((d) => d.status),
+      ["rejected"],
+      "Disputes of entries deleted by moderators should go with them",
+    );
+  });
+});
+
+describe("Account deletion", () => {
+  it("should purge the user's content and hand off owned competitions", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const post = await app.createPost(alice, "true", "Hello!");
+    const comment = await app.createComment(bob, "false", post.post._id.toString(), "Hi!");
+    await app.react(bob, comment.comment._id.toString(), "like");
+    await app.logData(alice, "true", "2024-01-01", "4");
+    await app.sendFriendRequest(alice, "bob");
+    await app.createMetric(alice, "steps", "higher", "integer");
+    await app.createMetric(alice, "pushups", "higher", "integer");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "handoff", endDate, undefined, undefined, undefined, "steps");
+    await app.joinCompetition(bob, "false", "handoff");
+
+    await app.deleteUser(alice, "purge", "transfer");
+    assert.deepEqual(
+      (await Tracking.metrics.readMany({})).map((m) => m.name),
+      ["steps"],
+      "Only metrics still used by a competition should be kept",
+    );
+    await app.getCompetitionLeaderboard(bob, "handoff");
+    assert.equal(await Posting.posts.count({}), 0);
+    assert.equal(await Commenting.comments.count({}), 0, "Comments on purged posts should be deleted");
+    assert.equal(await Reacting.reactions.count({}), 0, "Reactions on deleted comments should be deleted");
+    assert.equal(await Tracking.data.count({}), 0);
+    assert.equal(await Linking.links.count({}), 0);
+    assert.equal((await app.getRequests(bob)).items.length, 0);
+    assert.equal((await Competing.getByName("handoff")).owner.toString(), (await Authing.getUserByUsername("bob"))._id.toString());
+    assert.deepEqual(
+      (await app.getCompetitionMembers(bob, "handoff")).items.map((m) => m.user),
+      ["bob"],
+    );
+  });
+
+  it("should anonymize the user's content and close owned competitions", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.createPost(alice, "false", "Hello!");
+    await app.logData(alice, "false", "2024-01-01", "4");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "closing", endDate);
+
+    await app.deleteUser(alice, "anonymize", "close");
+    const posts = await Posting.posts.readMany({});
+    assert.equal(posts.length, 1);
+    assert.equal((await Responses.posts(posts))[0].author, "DELETED_USER");
+    assert.equal(await Tracking.data.count({}), 1);
+    await assert.rejects(Competing.getByName("closing"));
+  });
+});
+
+describe("Data export", () => {
+  it("should export the user's content and restore the score history into a fresh account", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.createPost(alice, "false", "Hello!");
+    await app.logData(alice, "true", "2024-01-01", "4");
+    await app.logData(alice, "false", "2024-01-02", "6");
+    await app.createMetric(alice, "plank", "higher", "integer", "seconds");
+    await app.logData(alice, "false", "2024-01-02", "60", "plank");
+
+    // Archives are downloaded as JSON
+    const archive = JSON.parse(JSON.stringify(await app.exportUser(alice)));
+    assert.equal(archive.profile.username, "alice");
+    assert(!("password" in archive.profile), "Archives should not contain the password");
+    assert.equal(archive.posts.length, 1);
+    assert.deepEqual(
+      archive.metrics.map((m: { name: string }) => m.name),
+      ["plank"],
+    );
+    const [header, ...rows] = archive.dataCsv.split("\n");
+    assert.equal(header, "id,date,score,linked,metric");
+    assert.deepEqual(rows.map((row: string) => row.split(",").slice(2, 4)).sort(), [
+      ["4", "true"],
+      ["6", "false"],
+      ["60", "false"],
+    ]);
+
+    const carol = getEmptySession();
+    await app.createUser(getEmptySession(), "carol", "carol123");
+    await app.logIn(carol, "carol", "carol123");
+    await app.importUser(carol, archive);
+    const carolId = (await Authing.getUserByUsername("carol"))._id;
+    const restored = await Tracking.getByUser(carolId);
+    assert.deepEqual(restored.map((d) => [d.date.toISOString(), d.score]).sort(), archive.data.map((d: { date: string; score: number }) => [d.date, d.score]).sort());
+    assert.equal(await Linking.links.count({ user: carolId }), 1, "Entries linked in the archive should be linked again");
+    const plank = (await Tracking.getOwnMetrics(carolId)).find((m) => m.name === "plank");
+    assert(plank, "Metrics of the archive should be created for the user");
+    assert.deepEqual(
+      restored.filter((d) => plank._id.equals(d.metric)).map((d) => d.score),
+      [60],
+    );
+    await assert.rejects(app.importUser(carol, archive), "Should only import into an account without data");
+  });
+
+  it("should restore nothing if any entry breaks the rules of its metric", async () => {
+    const alice = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    const archive = {
+      data: [
+        { _id: "first", date: "2024-01-01T12:00:00.000Z", score: 4 },
+        { _id: "second", date: "2024-01-02T12:00:00.000Z", score: -1 },
+      ],
+      links: [],
+    };
+    await assert.rejects(app.importUser(alice, archive));
+    assert.equal(await Tracking.data.count({}), 0, "Valid entries before the invalid one should not be restored");
+  });
+});
+
+describe("Pagination", () => {
+  it("should page through posts without skipping or repeating", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    for (let i = 0; i < 5; i++) {
+      await app.createPost(session, "false", `Post ${i}`);
+    }
+
+    const first = await app.getPosts(session, undefined, undefined, "2");
+    assert.deepEqual(
+      first.items.map((p) => p.content),
+      ["Post 4", "Post 3"],
+    );
+    assert(first.nextCursor);
+    const second = await app.getPosts(session, undefined, first.nextCursor, "2");
+    const third = await app.getPosts(session, undefined, second.nextCursor!, "2");
+    assert.deepEqual(
+      [...second.items, ...third.items].map((p) => p.content),
+      ["Post 2", "Post 1", "Post 0"],
+    );
+    assert.equal(third.nextCursor, null);
+  });
+
+  it("should page through data sorted by score", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    for (const score of [3, 5, 3, 1]) {
+      await app.logData(session, "false", "2024-01-01", score.toString());
+    }
+
+    const first = await app.getData(session, undefined, undefined, undefined, "score", undefined, undefined, "2");
+    const second = await app.getData(session, undefined, undefined, undefined, "score", undefined, first.nextCursor!, "2");
+    assert.deepEqual(
+      [...first.items, ...second.items].map((d) => d.score),
+      [5, 3, 3, 1],
+    );
+  });
+
+  it("should reject invalid page options", async () => {
+    await assert.rejects(app.getUsers(undefined, "0"));
+    await assert.rejects(app.getUsers("not-a-cursor"));
+  });
+
+  it("should fill pages of links with links to one kind of item", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    for (let i = 0; i < 3; i++) {
+      await app.createPost(session, "true", `Post ${i}`);
+      await app.logData(session, "true", "2024-01-01", i.toString());
+    }
+
+    const first = await app.getUserPostLinks("alice", undefined, "2");
+    assert.equal(first.items.length, 2, "Links to other kinds of items should not take up the page");
+    assert(first.nextCursor);
+    const second = await app.getUserPostLinks("alice", first.nextCursor, "2");
+    assert.equal(second.items.length, 1);
+    assert.equal(second.nextCursor, null);
+  });
+});
+
+describe("Post visibility", () => {
+  it("should only show friends-only and private posts and their comments to those allowed", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    const carol = getEmptySession();
+    await app.createUser(getEmptySession(), "carol", "carol123");
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    await app.logIn(carol, "carol", "carol123");
+    await app.sendFriendRequest(alice, "bob");
+    await app.acceptFriendRequest(bob, "alice");
+    const posts: Record<string, string> = {};
+    for (const visibility of [PostVisibility.PUBLIC, PostVisibility.FRIENDS, PostVisibility.PRIVATE]) {
+      posts[visibility] = (await app.createPost(alice, "true", visibility, { visibility })).post._id.toString();
+      await app.createComment(alice, "true", posts[visibility], `On ${visibility}`);
+    }
+
+    const contents = (items: { content: string }[]) => items.map((item) => item.content);
+    assert.deepEqual(contents((await app.getPosts(alice)).items), ["private", "friends", "public"]);
+    assert.deepEqual(contents((await app.getPosts(bob)).items), ["friends", "public"]);
+    assert.deepEqual(contents((await app.getPosts(carol)).items), ["public"]);
+    assert.deepEqual(contents((await app.getPosts(getEmptySession())).items), ["public"]);
+    assert.deepEqual(contents((await app.getPosts(carol, "alice")).items), ["public"]);
+    assert.deepEqual(contents((await app.getPosts(bob, "alice")).items), ["friends", "public"]);
+
+    assert.deepEqual(contents((await app.getComments(bob)).items), ["On friends", "On public"]);
+    assert.deepEqual(contents((await app.getComments(carol, "alice")).items), ["On public"]);
+    const page = await app.getComments(carol, undefined, undefined, "1");
+    assert.deepEqual(contents(page.items), ["On public"], "Pages should be filled with comments the viewer can see");
+    assert.equal((await app.getComments(carol, undefined, page.nextCursor!, "1")).items.length, 0);
+
+    assert.equal((await app.getPostComments(bob, posts.friends)).length, 1);
+    await assert.rejects(app.getPostComments(carol, posts.friends), "Non-friends should not see comments on friends-only posts");
+    await assert.rejects(app.getPostComments(bob, posts.private), "Friends should not see comments on private posts");
+  });
+
+  it("should only show posts by the user and their friends in the feed", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    const carol = getEmptySession();
+    await app.createUser(getEmptySession(), "carol", "carol123");
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    await app.logIn(carol, "carol", "carol123");
+    await app.sendFriendRequest(alice, "bob");
+    await app.acceptFriendRequest(bob, "alice");
+    await app.createPost(alice, "false", "Alice's friends post", { visibility: PostVisibility.FRIENDS });
+    await app.createPost(alice, "false", "Alice's private post", { visibility: PostVisibility.PRIVATE });
+    await app.createPost(bob, "false", "Bob's post");
+    await app.createPost(carol, "false", "Carol's post");
+
+    assert.deepEqual(
+      (await app.getFeed(bob)).items.map((post) => post.content),
+      ["Bob's post", "Alice's friends post"],
+    );
+    assert.deepEqual(
+      (await app.getFeed(carol)).items.map((post) => post.content),
+      ["Carol's post"],
+    );
+  });
+});
+
+describe("Comment threads", () => {
+  it("should nest replies and leave a tombstone for a deleted parent", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const postId = (await app.createPost(alice, "false", "Hello!")).post._id.toString();
+    const parent = await app.createComment(alice, "false", postId, "First!");
+    const reply = await app.createComment(bob, "false", postId, "Welcome!", parent.comment._id.toString());
+    await app.createComment(alice, "false", postId, "Thanks!", reply.comment._id.toString());
+
+    const shallow = await app.getPostComments(bob, postId, "1");
+    assert.equal(shallow.length, 1);
+    assert.equal(shallow[0].replyCount, 1);
+    assert.equal(shallow[0].replies.length, 0, "Replies past the depth limit should be left out");
+
+    await app.deleteComment(alice, parent.comment._id.toString());
+    const [thread] = await app.getPostComments(bob, postId);
+    assert(thread.comment.deleted);
+    assert.equal(thread.comment.content, "");
+    assert(!("author" in thread.comment), "Tombstones should not reveal their author");
+    assert.equal(thread.replies[0].replies[0].comment.content, "Thanks!");
+  });
+  it("should keep every deleted ancestor of a surviving reply when deleting a user's comments", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const postId = (await app.createPost(bob, "false", "Hello!")).post._id.toString();
+    const root = await app.createComment(alice, "false", postId, "First!");
+    const reply = await app.createComment(alice, "false", postId, "Me again!", root.comment._id.toString());
+    await app.createComment(bob, "false", postId, "Hi!", reply.comment._id.toString());
+    await app.createComment(alice, "false", postId, "Bye!");
+
+    await app.deleteUser(alice, "purge");
+    const threads = await app.getPostComments(bob, postId);
+    assert.equal(threads.length, 1, "Comments without surviving replies should be deleted");
+    assert(threads[0].comment.deleted);
+    assert(threads[0].replies[0].comment.deleted);
+    assert.equal(threads[0].replies[0].replies[0].comment.content, "Hi!");
+  });
+});
+
+describe("Reactions", () => {
+  it("should count reactions and flag the viewer's own", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const postId = (await app.createPost(alice, "false", "Hello!")).post._id.toString();
+    await app.react(alice, postId, "like");
+    await app.react(bob, postId, "like");
+    await app.react(bob, postId, "🎉");
+    await assert.rejects(app.react(bob, postId, "like"), "Should not be able to react twice with the same reaction");
+    await assert.rejects(app.react(bob, postId, "thumbs"), "Should only accept supported reactions");
+
+    const [post] = (await app.getPosts(alice)).items;
+    assert.deepEqual(post.reactions, { counts: { like: 2, "🎉": 1 }, mine: ["like"] });
+
+    await app.unreact(bob, postId, "like");
+    await assert.rejects(app.unreact(bob, postId, "like"));
+    assert.deepEqual((await app.getPosts(bob)).items[0].reactions.mine, ["🎉"]);
+  });
+
+  it("should not allow reactions on hidden data or on content by users who block the reactor", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const dataId = (await app.logData(alice, "false", "2024-01-01", "5")).data._id.toString();
+    const postId = (await app.createPost(alice, "false", "Hello!")).post._id.toString();
+    await app.setContentHidden("data", dataId, "true");
+    await assert.rejects(app.react(bob, dataId, "like"), "Hidden data should not accept reactions");
+
+    await app.blockUser(alice, "bob");
+    await assert.rejects(app.react(bob, postId, "like"), "Users should not react to the content of users who block them");
+    await app.unblockUser(alice, "bob");
+    await app.react(bob, postId, "like");
+  });
+});
+
+describe("Notifications", () => {
+  it("should notify users of friend requests and comments on their posts", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    await app.sendFriendRequest(alice, "bob");
+    const postId = (await app.createPost(alice, "false", "Hello!")).post._id.toString();
+    await app.createComment(bob, "false", postId, "Hi!");
+    await app.createComment(alice, "false", postId, "Talking to myself");
+
+    const notifications = await app.getNotifications(alice);
+    assert.deepEqual(
+      notifications.items.map((n) => [n.type, n.actor]),
+      [["comment", "bob"]],
+      "Users should not be notified of their own actions",
+    );
+    assert.equal(notifications.unreadCount, 1);
+    assert.equal((await app.getNotifications(bob)).items[0].type, "friend_request");
+
+    await app.markNotificationRead(alice, notifications.items[0]._id.toString());
+    assert.equal((await app.countUnreadNotifications(alice)).unreadCount, 0);
+    await assert.rejects(app.markNotificationRead(bob, notifications.items[0]._id.toString()), "Should not mark others' notifications");
+  });
+
+  it("should remind members before a competition ends and tell them their rank once it ended", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const endDate = new Date(Date.now() + 60 * 60 * 1000);
+    await app.createCompetition(alice, "false", "closing", endDate.toISOString(), undefined, "2024-01-01");
+    await app.joinCompetition(bob, "false", "closing");
+    await app.logData(bob, "false", "2024-01-01", "5");
+
+    assert.equal(await sendCompetitionNotices(), 1);
+    assert.equal(await sendCompetitionNotices(), 0, "Members should be reminded once");
+    const afterEnd = new Date(endDate.getTime() + 1000);
+    assert.equal(await sendCompetitionNotices(afterEnd), 1);
+    assert.equal(await sendCompetitionNotices(afterEnd), 0, "Members should be told once that the competition ended");
+
+    const notifications = (await app.getNotifications(bob)).items.filter((n) => n.type.startsWith("competition_"));
+    assert.deepEqual(
+      notifications.map((n) => [n.type, n.details?.rank]),
+      [
+        ["competition_ended", 1],
+        ["competition_ending", undefined],
+      ],
+    );
+  });
+});
+
+describe("Event streams", () => {
+  it("should run subscribers after publishing and keep their errors from the publisher", async () => {
+    const bus = new EventBus<{ ping: number }>();
+    const received: number[] = [];
+    bus.subscribe("ping", () => {
+      throw new Error("Failing subscriber");
+    });
+    const unsubscribe = bus.subscribe("ping", (n) => void received.push(n));
+    bus.publish("ping", 1);
+    assert.deepEqual(received, [], "Subscribers should not run within the publishing action");
+    await eventually(() => received.length === 1);
+    unsubscribe();
+    bus.publish("ping", 2);
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.deepEqual(received, [1]);
+  });
+
+  it("should push friend requests and leaderboard changes to the sessions streaming them", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const endDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    await app.createCompetition(alice, "false", "streamed", endDate, undefined, "2024-01-01");
+    await app.joinCompetition(bob, "false", "streamed");
+
+    const stream = await openEventStream(alice);
+    try {
+      await app.sendFriendRequest(bob, "alice");
+      await eventually(() => stream.res.events.some((e) => e.event === "friend_request"));
+      assert.deepEqual(stream.res.events.find((e) => e.event === "friend_request")?.data, { from: "bob", to: "alice" });
+
+      const bobScores = () =>
+        stream.res.events.filter((e) => e.event === "leaderboard").map((e) => (e.data as { standings: { user: string; score: number | null }[] }).standings.find((s) => s.user === "bob")?.score);
+      const logged = await app.logData(bob, "false", "2024-01-01", "4");
+      await eventually(() => bobScores().length === 1);
+      assert.deepEqual(bobScores(), [4]);
+      await app.setContentHidden("data", logged.data._id.toString(), "true");
+      await eventually(() => bobScores().length === 2);
+      assert.deepEqual(bobScores(), [4, null], "Hiding data should push the changed standings");
+    } finally {
+      stream.close();
+    }
+  });
+
+  it("should end the streams of suspended users and refuse them new ones", async () => {
+    const bob = getEmptySession();
+    await app.logIn(bob, "bob", "bob123");
+    const stream = await openEventStream(bob);
+    await Authing.suspend((await Authing.getUserByUsername("bob"))._id, (await Authing.getUserByUsername("alice"))._id, "Spam");
+    await eventually(() => stream.res.ended);
+
+    const refused = await openEventStream(bob);
+    assert.equal(refused.res.statusCode, 403);
+    assert.equal(bob.user, undefined, "Suspended users should be logged out");
+  });
+});
+
+describe("Moderation", () => {
+  it("should check roles and stop suspended users from logging in", async () => {
+    const alice = (await Authing.getUserByUsername("alice"))._id;
+    const bob = (await Authing.getUserByUsername("bob"))._id;
+    await assert.rejects(Authing.assertHasRole(alice, Role.MODERATOR));
+    await Authing.setRole(alice, Role.MODERATOR);
+    await Authing.assertHasRole(alice, Role.MODERATOR);
+    await assert.rejects(Authing.assertHasRole(alice, Role.ADMIN), "Moderators should not have admin permissions");
+    await assert.rejects(Authing.assertOutranks(bob, alice), "Users should not moderate moderators");
+
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    await app.suspendUser(session, "bob", "Spam");
+    await assert.rejects(app.logIn(getEmptySession(), "bob", "bob123"));
+    await app.unsuspendUser(session, "bob");
+    await app.logIn(getEmptySession(), "bob", "bob123");
+  });
+
+  it("should hide content from listings", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    const post = await app.createPost(session, "false", "Spam!");
+    await app.setContentHidden("posts", post.post._id.toString(), "true");
+    assert.equal((await app.getPosts(session)).items.length, 0);
+    assert.equal((await app.listContent("posts", "true")).items.length, 1);
+    await app.setContentHidden("posts", post.post._id.toString(), "false");
+    assert.equal((await app.getPosts(session)).items.length, 1);
+  });
+
+  it("should delete the comments of deleted posts with their links and reactions", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const post = await app.createPost(alice, "false", "Spam!");
+    const comment = await app.createComment(bob, "true", post.post._id.toString(), "Hi!");
+    await app.react(alice, comment.comment._id.toString(), "like");
+
+    await app.deleteContent("posts", post.post._id.toString());
+    assert.equal(await Commenting.comments.count({}), 0);
+    assert.equal(await Linking.links.count({}), 0, "Links to comments on deleted posts should be deleted");
+    assert.equal(await Reacting.reactions.count({}), 0, "Reactions to comments on deleted posts should be deleted");
+  });
+
+  it("should reject guarded routes for users without the role", async () => {
+    const session = getEmptySession();
+    await app.logIn(session, "alice", "alice123");
+    const post = await app.createPost(session, "false", "Spam!");
+    const url = `/admin/content/posts/${post.post._id.toString()}`;
+    assert.equal((await callRoute(session, "PATCH", url, { hidden: "true" })).status, 403, "Regular users should not moderate");
+    assert.equal((await app.getPosts(session)).items.length, 1);
+
+    await Authing.setRole((await Authing.getUserByUsername("alice"))._id, Role.MODERATOR);
+    assert.equal((await callRoute(session, "PATCH", url, { hidden: "true" })).status, 200);
+    assert.equal((await app.getPosts(session)).items.length, 0);
+  });
+
+  it("should make admins of the configured user ids only", async () => {
+    const bob = getEmptySession();
+    const bobId = (await Authing.getUserByUsername("bob"))._id;
+    process.env.ADMIN_USER_IDS = bobId.toString();
+    try {
+      await app.logIn(bob, "bob", "bob123");
+      await app.updateUsername(bob, "robert");
+      await app.createUser(getEmptySession(), "bob", "impostor");
+      await app.logIn(getEmptySession(), "bob", "impostor");
+      await assert.rejects(Authing.assertHasRole((await Authing.getUserByUsername("bob"))._id, Role.ADMIN), "Taking an admin's old username should not make an admin");
+      await Authing.assertHasRole(bobId, Role.ADMIN);
+    } finally {
+      delete process.env.ADMIN_USER_IDS;
+    }
+  });
+});
+
+describe("Reporting", () => {
+  it("should queue reported items by report count and hide them on resolution", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    const quiet = (await app.createPost(alice, "false", "Hello!")).post._id.toString();
+    const loud = (await app.createPost(alice, "false", "Buy now!")).post._id.toString();
+    await app.report(bob, "posts", quiet, "other");
+    await app.report(alice, "posts", loud, "spam");
+    await app.report(bob, "posts", loud, "spam");
+    await assert.rejects(app.report(bob, "posts", loud, "abuse"), "Should not be able to report an item twice");
+
+    const queue = await app.getReportQueue();
+    assert.deepEqual(
+      queue.items.map((c) => [c.item.toString(), c.reportCount]),
+      [
+        [loud, 2],
+        [quiet, 1],
+      ],
+    );
+
+    await app.resolveReports(alice, loud, "hidden");
+    assert.deepEqual(
+      (await app.getPosts(bob)).items.map((p) => p._id.toString()),
+      [quiet],
+    );
+    assert.equal((await app.getReportQueue()).items.length, 1);
+    await assert.rejects(app.resolveReports(alice, loud, "dismissed"), "Should not resolve a case twice");
+  });
+
+  it("should take a deleted user's reports and reported items off the queue", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    const carol = getEmptySession();
+    await app.createUser(getEmptySession(), "carol", "carol123");
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    await app.logIn(carol, "carol", "carol123");
+    const quiet = (await app.createPost(alice, "false", "Hello!")).post._id.toString();
+    const loud = (await app.createPost(alice, "false", "Buy now!")).post._id.toString();
+    const rude = (await app.createPost(bob, "false", "Go away!")).post._id.toString();
+    await app.report(bob, "posts", quiet, "other");
+    await app.report(bob, "posts", loud, "spam");
+    await app.report(carol, "posts", loud, "spam");
+    await app.report(alice, "posts", rude, "abuse");
+
+    await app.deleteUser(bob, "purge", "transfer");
+    assert.deepEqual(
+      (await app.getReportQueue()).items.map((c) => [c.item.toString(), c.reportCount]),
+      [[loud, 1]],
+      "Cases should lose the deleted user's reports, and cases on their deleted items should go",
+    );
+  });
+});
+
+describe("Blocking", () => {
+  it("should unfriend blocked users and hide their content", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    await app.sendFriendRequest(alice, "bob");
+    await app.acceptFriendRequest(bob, "alice");
+    await app.createPost(bob, "false", "Hello!");
+
+    await app.blockUser(alice, "bob");
+    assert.equal((await app.getFriends(alice)).items.length, 0, "Blocking should unfriend");
+    assert.equal((await app.getPosts(alice)).items.length, 0);
+    await assert.rejects(app.sendFriendRequest(bob, "alice"), "Blocked users should not send friend requests");
+    await assert.rejects(app.blockUser(alice, "bob"), "Should not block a user twice");
+
+    await app.unblockUser(alice, "bob");
+    assert.equal((await app.getPosts(alice)).items.length, 1);
+  });
+
+  it("should silence notifications from muted users", async () => {
+    const alice = getEmptySession();
+    const bob = getEmptySession();
+    await app.logIn(alice, "alice", "alice123");
+    await app.logIn(bob, "bob", "bob123");
+    await app.muteUser(alice, "bob");
+    await app.sendFriendRequest(bob, "alice");
+    assert.equal((await app.getNotifications(alice)).items.length, 0);
+    assert.deepEqual(
+      (await app.getBlocks(alice, "mute")).items.map((block) => block.target),
+      ["bob"],
+    );
+  });
+});
+
 /*
  * As you add more tests, remember to put them inside `describe` blocks.
  */